@@ -0,0 +1,147 @@
+import { ruleDocumentationUrl, LINT_RULES, QuizProblem } from '../validator';
+
+export interface FileResult {
+	// Path of the quiz file, relative to the working directory
+	filePath: string;
+	problems: QuizProblem[];
+}
+
+export type Formatter = (results: FileResult[]) => string;
+
+export const FORMATTERS: Record<string, Formatter> = {
+	stylish: formatStylish,
+	json: formatJson,
+	sarif: formatSarif,
+	junit: formatJunit
+};
+
+const TOOL_NAME = 'quiz-lint';
+const TOOL_URL = 'https://github.com/vicajilau/quiz_vs_extension';
+
+// Human-readable output: problems grouped by file, followed by a summary line
+function formatStylish(results: FileResult[]): string {
+	const lines: string[] = [];
+	for (const result of results.filter(result => result.problems.length > 0)) {
+		lines.push(result.filePath);
+		for (const problem of result.problems) {
+			const { line, character } = problem.range.start;
+			const position = `${line + 1}:${character + 1}`.padEnd(8);
+			lines.push(`  ${position}${problem.severity.padEnd(9)}${problem.message}  ${problem.ruleId ?? problem.source}`);
+		}
+		lines.push('');
+	}
+
+	const errors = countProblems(results, 'error');
+	const warnings = countProblems(results, 'warning');
+	const total = results.reduce((count, result) => count + result.problems.length, 0);
+	if (total === 0) {
+		lines.push(`${results.length} quiz file(s) checked, no problems found`);
+	} else {
+		lines.push(`${total} problem(s) (${errors} error(s), ${warnings} warning(s)) in ${results.length} quiz file(s)`);
+	}
+	return lines.join('\n');
+}
+
+function formatJson(results: FileResult[]): string {
+	return JSON.stringify(results.map(result => ({
+		filePath: result.filePath,
+		errorCount: countProblems([result], 'error'),
+		warningCount: countProblems([result], 'warning'),
+		messages: result.problems.map(problem => ({
+			ruleId: problem.ruleId ?? null,
+			source: problem.source,
+			severity: problem.severity,
+			message: problem.message,
+			line: problem.range.start.line + 1,
+			column: problem.range.start.character + 1,
+			endLine: problem.range.end.line + 1,
+			endColumn: problem.range.end.character + 1
+		}))
+	})), null, 2);
+}
+
+// SARIF 2.1.0, as consumed by GitHub code scanning
+function formatSarif(results: FileResult[]): string {
+	const levels = { error: 'error', warning: 'warning', info: 'note' };
+	const sarif = {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: TOOL_NAME,
+					informationUri: TOOL_URL,
+					rules: LINT_RULES.map(rule => ({
+						id: rule.id,
+						shortDescription: { text: rule.description },
+						helpUri: ruleDocumentationUrl(rule.id),
+						defaultConfiguration: { level: levels[rule.defaultSeverity] }
+					}))
+				}
+			},
+			results: results.flatMap(result => result.problems.map(problem => ({
+				...(problem.ruleId ? { ruleId: problem.ruleId } : {}),
+				level: levels[problem.severity],
+				message: { text: problem.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri: result.filePath.replace(/\\/g, '/') },
+						region: {
+							startLine: problem.range.start.line + 1,
+							startColumn: problem.range.start.character + 1,
+							endLine: problem.range.end.line + 1,
+							endColumn: problem.range.end.character + 1
+						}
+					}
+				}]
+			})))
+		}]
+	};
+	return JSON.stringify(sarif, null, 2);
+}
+
+// JUnit XML: one test suite per file and one failing test case per problem,
+// so that files without problems show up as a single passing test case
+function formatJunit(results: FileResult[]): string {
+	const suites = results.map(result => {
+		const cases = result.problems.length === 0
+			? [`    <testcase classname="${escapeXml(result.filePath)}" name="${TOOL_NAME}" />`]
+			: result.problems.map(problem => {
+				const { line, character } = problem.range.start;
+				const name = `${line + 1}:${character + 1} ${problem.ruleId ?? problem.source}`;
+				return [
+					`    <testcase classname="${escapeXml(result.filePath)}" name="${escapeXml(name)}">`,
+					`      <failure type="${problem.severity}" message="${escapeXml(problem.message)}">${escapeXml(`${result.filePath}:${line + 1}:${character + 1} ${problem.message}`)}</failure>`,
+					'    </testcase>'
+				].join('\n');
+			});
+		const tests = Math.max(result.problems.length, 1);
+		return [
+			`  <testsuite name="${escapeXml(result.filePath)}" tests="${tests}" failures="${result.problems.length}" errors="0">`,
+			...cases,
+			'  </testsuite>'
+		].join('\n');
+	});
+
+	const tests = results.reduce((count, result) => count + Math.max(result.problems.length, 1), 0);
+	const failures = results.reduce((count, result) => count + result.problems.length, 0);
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}" errors="0">`,
+		...suites,
+		'</testsuites>'
+	].join('\n');
+}
+
+function countProblems(results: FileResult[], severity: QuizProblem['severity']): number {
+	return results.reduce((count, result) => count + result.problems.filter(problem => problem.severity === severity).length, 0);
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import * as fs from 'fs';
+import fastGlob from 'fast-glob';
+import {
+	createSchemaValidator,
+	parseLintConfig,
+	parseSchemaExtension,
+	readSchemaFiles,
+	validateQuiz,
+	LINT_CONFIG_FILE,
+	SCHEMA_EXTENSION_FILE,
+	QuizProblem,
+	SchemaExtension,
+	SchemaValidator,
+	ValidationOptions
+} from '../validator';
+import { FileResult, FORMATTERS } from './formatters';
+
+// Exit codes: no errors, errors found, invalid usage or configuration
+const EXIT_SUCCESS = 0;
+const EXIT_ERRORS = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: quiz-lint [options] <file|directory|glob>...
+
+Validates .quiz files with the same rules as the QUIZ File Support extension.
+
+Options:
+  -f, --format <name>  Output format: ${Object.keys(FORMATTERS).join(', ')} (default: stylish)
+  -c, --config <path>  Lint configuration file (default: ./${LINT_CONFIG_FILE} when present)
+  --schema-extension <path>
+                       Schema extension file (default: ./${SCHEMA_EXTENSION_FILE} when present)
+  --strict             Enable the strict rules
+  -h, --help           Show this help`;
+
+interface CliOptions {
+	patterns: string[];
+	format: string;
+	config?: string;
+	schemaExtension?: string;
+	strict: boolean;
+	help: boolean;
+}
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+	let options: CliOptions;
+	try {
+		options = parseArguments(argv);
+	} catch (error) {
+		if (error instanceof UsageError) {
+			console.error(`quiz-lint: ${error.message}\n\n${USAGE}`);
+			return EXIT_USAGE;
+		}
+		throw error;
+	}
+
+	if (options.help) {
+		console.log(USAGE);
+		return EXIT_SUCCESS;
+	}
+
+	const ruleOverrides = loadRuleOverrides(options.config);
+	if (!ruleOverrides) {
+		return EXIT_USAGE;
+	}
+
+	const schema = loadSchema(options.schemaExtension);
+	if (!schema) {
+		return EXIT_USAGE;
+	}
+
+	const files = await findQuizFiles(options.patterns);
+	if (files.length === 0) {
+		console.error(`quiz-lint: no quiz files match ${options.patterns.join(' ')}`);
+		return EXIT_USAGE;
+	}
+
+	const results: FileResult[] = files.map(file => ({
+		filePath: path.relative(process.cwd(), file) || file,
+		problems: lintFile(file, {
+			strictMode: options.strict,
+			ruleOverrides: [ruleOverrides],
+			schema: schema.validator,
+			schemaExtension: schema.extension,
+			mediaBaseDirectory: path.dirname(file)
+		})
+	}));
+
+	console.log(FORMATTERS[options.format](results));
+	const hasErrors = results.some(result => result.problems.some(problem => problem.severity === 'error'));
+	return hasErrors ? EXIT_ERRORS : EXIT_SUCCESS;
+}
+
+// Validates one file. A file that cannot be read or validated gets a single error, so the other files are still linted.
+function lintFile(file: string, validateOptions: ValidationOptions): QuizProblem[] {
+	try {
+		return validateQuiz(fs.readFileSync(file, 'utf8'), validateOptions);
+	} catch (error) {
+		return [{
+			message: `Failed to validate the file: ${error instanceof Error ? error.message : error}`,
+			severity: 'error',
+			source: 'quiz-validator',
+			range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+			offset: 0,
+			length: 0
+		}];
+	}
+}
+
+function parseArguments(argv: string[]): CliOptions {
+	const options: CliOptions = { patterns: [], format: 'stylish', strict: false, help: false };
+	for (let index = 0; index < argv.length; index++) {
+		const argument = argv[index];
+		const [flag, inlineValue] = argument.startsWith('--') ? argument.split(/=(.*)/s, 2) : [argument, undefined];
+		const takeValue = () => {
+			const value = inlineValue ?? argv[++index];
+			if (value === undefined) {
+				throw new UsageError(`missing value for ${flag}`);
+			}
+			return value;
+		};
+
+		switch (flag) {
+			case '-f':
+			case '--format':
+				options.format = takeValue();
+				if (!FORMATTERS[options.format]) {
+					throw new UsageError(`unknown format '${options.format}'`);
+				}
+				break;
+			case '-c':
+			case '--config':
+				options.config = takeValue();
+				break;
+			case '--schema-extension':
+				options.schemaExtension = takeValue();
+				break;
+			case '--strict':
+				options.strict = true;
+				break;
+			case '-h':
+			case '--help':
+				options.help = true;
+				break;
+			default:
+				if (flag.startsWith('-')) {
+					throw new UsageError(`unknown option '${flag}'`);
+				}
+				options.patterns.push(argument);
+		}
+	}
+
+	if (options.patterns.length === 0 && !options.help) {
+		throw new UsageError('no files given');
+	}
+	return options;
+}
+
+// Reads rule overrides from the given configuration file, or from ./.quizlintrc when present.
+// Returns undefined when the configuration is unusable.
+function loadRuleOverrides(configPath: string | undefined): Record<string, unknown> | undefined {
+	const resolvedPath = configPath ?? path.join(process.cwd(), LINT_CONFIG_FILE);
+	if (!fs.existsSync(resolvedPath)) {
+		if (configPath) {
+			console.error(`quiz-lint: configuration file ${configPath} not found`);
+			return undefined;
+		}
+		return {};
+	}
+
+	const config = parseLintConfig(fs.readFileSync(resolvedPath, 'utf8'));
+	if (!config.rules) {
+		console.error(`quiz-lint: ${resolvedPath} is invalid: ${config.problems.join(', ')}`);
+		return undefined;
+	}
+	if (config.problems.length > 0) {
+		console.error(`quiz-lint: ${resolvedPath}: ${config.problems.join(', ')}`);
+	}
+	return config.rules;
+}
+
+// Loads the bundled schemas, extended by the given schema extension file or by ./.quizschema.json when present.
+// Returns undefined when the schemas or the extension cannot be loaded.
+function loadSchema(extensionPath: string | undefined): { validator: SchemaValidator; extension?: SchemaExtension } | undefined {
+	// dist/cli.js in the published package, out/src/cli/quizLint.js when compiled with tsc
+	const possibleSchemaPaths = [
+		path.join(__dirname, '..', 'schemas', 'quiz-schema.json'),
+		path.join(__dirname, '..', '..', '..', 'schemas', 'quiz-schema.json')
+	];
+	const schemaPath = possibleSchemaPaths.find(candidate => fs.existsSync(candidate));
+	if (!schemaPath) {
+		console.error('quiz-lint: failed to load the quiz schema');
+		return undefined;
+	}
+	const schemas = readSchemaFiles(path.dirname(schemaPath));
+
+	const resolvedPath = extensionPath ?? path.join(process.cwd(), SCHEMA_EXTENSION_FILE);
+	if (!fs.existsSync(resolvedPath)) {
+		if (extensionPath) {
+			console.error(`quiz-lint: schema extension file ${extensionPath} not found`);
+			return undefined;
+		}
+		return { validator: createSchemaValidator(schemas) };
+	}
+
+	const { extension, problems } = parseSchemaExtension(fs.readFileSync(resolvedPath, 'utf8'));
+	if (!extension) {
+		console.error(`quiz-lint: ${resolvedPath} is invalid: ${problems.join(', ')}`);
+		return undefined;
+	}
+	try {
+		return { validator: createSchemaValidator(schemas, extension), extension };
+	} catch (error) {
+		console.error(`quiz-lint: ${resolvedPath} is not a valid JSON Schema: ${error instanceof Error ? error.message : error}`);
+		return undefined;
+	}
+}
+
+// Expands files, directories (every .quiz file below them) and glob patterns
+async function findQuizFiles(patterns: string[]): Promise<string[]> {
+	const globs = patterns.map(pattern => {
+		if (fs.existsSync(pattern) && fs.statSync(pattern).isDirectory()) {
+			return path.posix.join(fastGlob.convertPathToPattern(pattern), '**/*.quiz');
+		}
+		return fs.existsSync(pattern) ? fastGlob.convertPathToPattern(pattern) : pattern;
+	});
+	const files = await fastGlob(globs, { absolute: true, onlyFiles: true, ignore: ['**/node_modules/**'] });
+	return [...new Set(files)].sort();
+}
+
+main(process.argv.slice(2)).then(
+	exitCode => {
+		process.exitCode = exitCode;
+	},
+	error => {
+		console.error('quiz-lint:', error);
+		process.exitCode = EXIT_USAGE;
+	}
+);
@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import { applyEdits, findNodeAtOffset, getNodePath, getNodeValue, modify, parseTree, FormattingOptions, JSONPath, Node as JsonNode } from 'jsonc-parser';
+import { minimalEdit } from './edits';
+import { QUESTION_TYPES, QuizModification } from './validator';
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+const METADATA_PLACEHOLDERS: Record<string, string> = {
+	title: 'Quiz title',
+	description: 'Quiz description',
+	version: '1.0.0',
+	author: 'Author name'
+};
+
+interface QuizFix {
+	title: string;
+	isPreferred?: boolean;
+	// Modifications are computed against the current quiz value, so that several
+	// fixes can be applied one after another without their edits overlapping
+	modifications(quiz: any): QuizModification[];
+}
+
+export class QuizCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly fixAllKind = vscode.CodeActionKind.SourceFixAll.append('quiz');
+
+	static readonly providedCodeActionKinds = [
+		vscode.CodeActionKind.QuickFix,
+		QuizCodeActionProvider.fixAllKind
+	];
+
+	provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const root = parseTree(document.getText());
+		if (!root || root.type !== 'object') {
+			return [];
+		}
+
+		const actions: vscode.CodeAction[] = [];
+
+		if (!context.only || context.only.intersects(vscode.CodeActionKind.QuickFix)) {
+			for (const diagnostic of context.diagnostics.filter(isQuizValidatorDiagnostic)) {
+				for (const fix of getFixes(document, root, diagnostic)) {
+					// Several diagnostics can share a fix (e.g. every missing metadata field)
+					const existing = actions.find(action => action.title === fix.title);
+					if (existing) {
+						existing.diagnostics?.push(diagnostic);
+						continue;
+					}
+					const edit = createEdit(document, applyFixes(document, [fix]));
+					if (!edit) {
+						continue;
+					}
+					const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+					action.diagnostics = [diagnostic];
+					action.isPreferred = fix.isPreferred;
+					action.edit = edit;
+					actions.push(action);
+				}
+			}
+		}
+
+		if (!context.only || context.only.intersects(QuizCodeActionProvider.fixAllKind)) {
+			const fixes = vscode.languages.getDiagnostics(document.uri)
+				.filter(isQuizValidatorDiagnostic)
+				.flatMap(diagnostic => getFixes(document, root, diagnostic).filter(fix => fix.isPreferred));
+			const edit = fixes.length > 0 ? createEdit(document, applyFixes(document, fixes)) : undefined;
+			if (edit) {
+				const action = new vscode.CodeAction('Fix all auto-fixable problems', QuizCodeActionProvider.fixAllKind);
+				action.edit = edit;
+				actions.push(action);
+			}
+		}
+
+		return actions;
+	}
+}
+
+// Applies changes such as format migrations to the document, keeping its formatting
+export function createQuizEdit(
+	document: vscode.TextDocument,
+	changes: Pick<QuizFix, 'modifications'>[],
+	metadata?: vscode.WorkspaceEditEntryMetadata
+): vscode.WorkspaceEdit | undefined {
+	return createEdit(document, applyFixes(document, changes), metadata);
+}
+
+function isQuizValidatorDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+	return diagnostic.source === 'quiz-validator' && diagnostic.code !== undefined;
+}
+
+function diagnosticRuleId(diagnostic: vscode.Diagnostic): string {
+	return String(typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code);
+}
+
+// Returns the available fixes for a diagnostic, the preferred one first
+function getFixes(document: vscode.TextDocument, root: JsonNode, diagnostic: vscode.Diagnostic): QuizFix[] {
+	const ruleId = diagnosticRuleId(diagnostic);
+	if (ruleId === 'quiz/metadata-required') {
+		return [{
+			title: 'Add missing metadata fields',
+			isPreferred: true,
+			modifications: quiz => {
+				if (!quiz.metadata || typeof quiz.metadata !== 'object' || Array.isArray(quiz.metadata)) {
+					return [{ path: ['metadata'], value: { ...METADATA_PLACEHOLDERS }, insertFirst: true }];
+				}
+				return Object.entries(METADATA_PLACEHOLDERS)
+					.filter(([field]) => !quiz.metadata[field])
+					.map(([field, placeholder]) => ({ path: ['metadata', field], value: placeholder }));
+			}
+		}];
+	}
+
+	// The remaining fixes target a single question
+	const node = findNodeAtOffset(root, document.offsetAt(diagnostic.range.start), true);
+	const jsonPath = node ? getNodePath(node) : [];
+	if (jsonPath[0] !== 'questions' || typeof jsonPath[1] !== 'number') {
+		return [];
+	}
+	const questionPath: JSONPath = jsonPath.slice(0, 2);
+	const questionIndex = jsonPath[1];
+	const questionAt = (quiz: any) => Array.isArray(quiz.questions) ? quiz.questions[questionIndex] : undefined;
+	const question = questionAt(getNodeValue(root));
+
+	switch (ruleId) {
+		case 'quiz/answer-index-range': {
+			if (jsonPath[2] !== 'correct_answers' || typeof jsonPath[3] !== 'number' || !node) {
+				return [];
+			}
+			const invalidIndex = getNodeValue(node);
+			const remove: QuizFix = {
+				title: `Remove invalid index ${JSON.stringify(invalidIndex)} from correct_answers`,
+				modifications: quiz => {
+					const answers = questionAt(quiz)?.correct_answers;
+					return Array.isArray(answers) ? [{ path: [...questionPath, 'correct_answers'], value: answers.filter(answer => answer !== invalidIndex) }] : [];
+				}
+			};
+			const clamp: QuizFix = {
+				title: `Clamp index ${JSON.stringify(invalidIndex)} to the last option`,
+				modifications: quiz => {
+					const current = questionAt(quiz);
+					if (!Array.isArray(current?.correct_answers) || !Array.isArray(current.options) || current.options.length === 0) {
+						return [];
+					}
+					const maxIndex = current.type === 'true_false' ? 1 : current.options.length - 1;
+					const clamped = current.correct_answers.map((answer: unknown) => answer === invalidIndex ? clampIndex(answer, maxIndex) : answer);
+					return [{ path: [...questionPath, 'correct_answers'], value: [...new Set(clamped)] }];
+				}
+			};
+			// Removing the only answer would leave correct_answers empty, so clamping is preferred then
+			if (Array.isArray(question?.correct_answers) && question.correct_answers.length > 1) {
+				remove.isPreferred = true;
+				return [remove, clamp];
+			}
+			clamp.isPreferred = true;
+			return [clamp, remove];
+		}
+
+		case 'quiz/answer-count':
+			if (question?.type !== 'single_choice') {
+				return [];
+			}
+			return [{
+				title: 'Convert to multiple_choice',
+				isPreferred: true,
+				modifications: quiz => questionAt(quiz)?.type === 'single_choice' ? [{ path: [...questionPath, 'type'], value: 'multiple_choice' }] : []
+			}];
+
+		case 'quiz/question-type': {
+			const currentType = question?.type;
+			if (typeof currentType !== 'string' || QUESTION_TYPES.includes(currentType)) {
+				return [];
+			}
+			const nearestType = findNearestQuestionType(currentType);
+			return [{
+				title: `Change type to '${nearestType}'`,
+				isPreferred: true,
+				modifications: quiz => questionAt(quiz)?.type === currentType ? [{ path: [...questionPath, 'type'], value: nearestType }] : []
+			}];
+		}
+
+		case 'quiz/options-required':
+			if (question?.type !== 'true_false' || question.options !== undefined) {
+				return [];
+			}
+			return [{
+				title: `Add options ${JSON.stringify(TRUE_FALSE_OPTIONS)}`,
+				isPreferred: true,
+				modifications: quiz => questionAt(quiz)?.options === undefined ? [{ path: [...questionPath, 'options'], value: [...TRUE_FALSE_OPTIONS] }] : []
+			}];
+
+		default:
+			return [];
+	}
+}
+
+function clampIndex(value: unknown, maxIndex: number): number {
+	const index = typeof value === 'number' && Number.isFinite(value) ? Math.trunc(value) : 0;
+	return Math.min(Math.max(index, 0), maxIndex);
+}
+
+function findNearestQuestionType(type: string): string {
+	const normalized = type.toLowerCase().replace(/[\s-]+/g, '_');
+	return QUESTION_TYPES.reduce((best, candidate) =>
+		levenshtein(normalized, candidate) < levenshtein(normalized, best) ? candidate : best);
+}
+
+function levenshtein(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+// Applies the fixes in order to the document text and returns the resulting text
+function applyFixes(document: vscode.TextDocument, fixes: Pick<QuizFix, 'modifications'>[]): string {
+	const formattingOptions = getFormattingOptions(document);
+	let text = document.getText();
+	for (const fix of fixes) {
+		const root = parseTree(text);
+		if (!root) {
+			break;
+		}
+		for (const modification of fix.modifications(getNodeValue(root))) {
+			text = applyModification(text, modification, formattingOptions);
+		}
+	}
+	return text;
+}
+
+function applyModification(text: string, modification: QuizModification, formattingOptions: FormattingOptions): string {
+	try {
+		return applyEdits(text, modify(text, modification.path, modification.value, {
+			formattingOptions,
+			getInsertionIndex: modification.insertFirst ? () => 0 : undefined
+		}));
+	} catch {
+		// modify throws when the parent of a new property is not an object or array; the fix is skipped
+		return text;
+	}
+}
+
+// The formatting options of the editor showing the document, or the indentation of its first indented line
+function getFormattingOptions(document: vscode.TextDocument): FormattingOptions {
+	const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+	const editorOptions = vscode.window.visibleTextEditors.find(editor => editor.document === document)?.options;
+	if (typeof editorOptions?.tabSize === 'number' && typeof editorOptions.insertSpaces === 'boolean') {
+		return { tabSize: editorOptions.tabSize, insertSpaces: editorOptions.insertSpaces, eol };
+	}
+	const indent = /^([ \t]+)\S/m.exec(document.getText())?.[1] ?? '  ';
+	return indent.startsWith('\t') ? { tabSize: 4, insertSpaces: false, eol } : { tabSize: indent.length, insertSpaces: true, eol };
+}
+
+// Builds a single replacement covering only the part of the text that changed
+function createEdit(document: vscode.TextDocument, newText: string, metadata?: vscode.WorkspaceEditEntryMetadata): vscode.WorkspaceEdit | undefined {
+	const textEdit = minimalEdit(document, newText);
+	if (!textEdit) {
+		return undefined;
+	}
+	const edit = new vscode.WorkspaceEdit();
+	edit.replace(document.uri, textEdit.range, textEdit.newText, metadata);
+	return edit;
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { findNodeAtLocation, getNodeValue, parseTree } from 'jsonc-parser';
+import { canShuffleOptions } from './refactorings';
+import { computeQuizStatistics, questionPoints } from './validator';
+
+// Quiz totals above metadata, and a summary line with actions above each question
+export class QuizCodeLensProvider implements vscode.CodeLensProvider {
+	provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+		const root = parseTree(document.getText());
+		if (!root || root.type !== 'object') {
+			return [];
+		}
+		const quiz = getNodeValue(root);
+		const lenses: vscode.CodeLens[] = [];
+
+		const metadata = findNodeAtLocation(root, ['metadata']);
+		if (metadata?.parent) {
+			const range = lineRange(document, metadata.parent.offset);
+			lenses.push(
+				new vscode.CodeLens(range, { title: summarizeQuiz(quiz), command: '' }),
+				new vscode.CodeLens(range, { title: 'Preview', command: 'quiz-file-support.preview', arguments: [document.uri] })
+			);
+		}
+
+		const questions = findNodeAtLocation(root, ['questions']);
+		const questionNodes = questions?.type === 'array' ? questions.children ?? [] : [];
+		questionNodes.forEach((node, index) => {
+			const question = getNodeValue(node);
+			if (!question || typeof question !== 'object' || Array.isArray(question)) {
+				return;
+			}
+			const range = lineRange(document, node.offset);
+			const points = questionPoints(question);
+			const title = [`Q${index + 1} of ${questionNodes.length}`, `${points} ${points === 1 ? 'pt' : 'pts'}`];
+			if (typeof question.type === 'string') {
+				title.push(question.type);
+			}
+			const command = (commandTitle: string, id: string, ...args: unknown[]): vscode.CodeLens =>
+				new vscode.CodeLens(range, { title: commandTitle, command: `quiz-file-support.${id}`, arguments: [document.uri, index, ...args] });
+
+			lenses.push(
+				new vscode.CodeLens(range, { title: title.join(' · '), command: '' }),
+				command('Preview', 'previewQuestion'),
+				command('Duplicate', 'duplicateQuestion')
+			);
+			if (index > 0) {
+				lenses.push(command('Move up', 'moveQuestion', -1));
+			}
+			if (index < questionNodes.length - 1) {
+				lenses.push(command('Move down', 'moveQuestion', 1));
+			}
+			if (canShuffleOptions(question)) {
+				lenses.push(command('Shuffle options', 'shuffleOptions'));
+			}
+		});
+		return lenses;
+	}
+}
+
+// e.g. "12 questions · 20 pts (5 graded manually) · ~14 of 30 min"
+function summarizeQuiz(quiz: any): string {
+	const statistics = computeQuizStatistics(quiz);
+	const parts = [`${statistics.questionCount} ${statistics.questionCount === 1 ? 'question' : 'questions'}`];
+	const points = `${statistics.totalPoints} ${statistics.totalPoints === 1 ? 'pt' : 'pts'}`;
+	parts.push(statistics.manuallyGradedPoints > 0 ? `${points} (${statistics.manuallyGradedPoints} graded manually)` : points);
+	if (statistics.timeLimit === undefined) {
+		parts.push(`~${statistics.estimatedMinutes} min`);
+	} else if (statistics.estimatedMinutes > statistics.timeLimit) {
+		parts.push(`$(warning) ~${statistics.estimatedMinutes} min, over the ${statistics.timeLimit} min limit`);
+	} else {
+		parts.push(`~${statistics.estimatedMinutes} of ${statistics.timeLimit} min`);
+	}
+	return parts.join(' · ');
+}
+
+function lineRange(document: vscode.TextDocument, offset: number): vscode.Range {
+	const position = document.positionAt(offset);
+	return new vscode.Range(position, position);
+}
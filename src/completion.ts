@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { findNodeAtLocation, getLocation, getNodeValue, parse as parseJson, parseTree, Node as JsonNode } from 'jsonc-parser';
+import { truncateText } from './symbols';
+import { optionText, CHOICE_QUESTION_TYPES, QUESTION_TYPES } from './validator';
+
+// Workspace files searched for tags, at most
+const MAX_TAG_FILES = 500;
+
+// The fields each question type starts with, as snippet text; the type itself comes first.
+// They follow the snippets in snippets/quiz.json.
+const QUESTION_SCAFFOLDS: Record<string, [string, string][]> = {
+	multiple_choice: [['text', '"$1"'], ['options', '["$2", "$3", "$4", "$5"]'], ['correct_answers', '[${6:0}, ${7:1}]'], ['explanation', '"$8"']],
+	single_choice: [['text', '"$1"'], ['options', '["$2", "$3", "$4", "$5"]'], ['correct_answers', '[${6:0}]'], ['explanation', '"$7"']],
+	true_false: [['text', '"$1"'], ['options', '["True", "False"]'], ['correct_answers', '[${2|0,1|}]'], ['explanation', '"$3"']],
+	short_answer: [['text', '"${1:The capital of France is ___.}"'], ['blanks', '[{ "answers": ["$2"] }]'], ['explanation', '"$3"']],
+	numeric: [['text', '"$1"'], ['answers', '[{ "value": ${2:0}, "tolerance": ${3:0.1} }]'], ['unit', '"$4"'], ['explanation', '"$5"']],
+	matching: [['text', '"$1"'], ['left', '["$2", "$3"]'], ['right', '["$4", "$5"]'], ['pairs', '[[0, ${6:0}], [1, ${7:1}]]']],
+	ordering: [['text', '"$1"'], ['items', '["$2", "$3", "$4"]'], ['correct_order', '[${5:0, 1, 2}]']],
+	essay: [
+		['text', '"$1"'],
+		['points', '${2:2}'],
+		['rubric', '[{ "criterion": "${3:Content}", "levels": [{ "descriptor": "${4:Incomplete}", "points": 0 }, { "descriptor": "${5:Complete}", "points": ${2:2} }] }]']
+	]
+};
+
+// Completions that know the quiz structure: question types with their fields, correct_answers
+// indices, tags used in the workspace and the metadata values allowed by the schema
+export class QuizCompletionProvider implements vscode.CompletionItemProvider {
+	// Returns the schema a quiz is validated against, if it is loaded
+	constructor(private readonly getSchema: (document: vscode.TextDocument, quiz: unknown) => object | undefined) {}
+
+	// The tags of each quiz file in the workspace by URI, read on the first tag completion and
+	// kept up to date by the quiz file watcher through updateTags and forgetTags
+	private workspaceTags?: Promise<Map<string, Promise<string[]>>>;
+
+	// Re-reads the tags of a quiz file that was created or changed
+	updateTags(uri: vscode.Uri) {
+		this.workspaceTags?.then(tagsByFile => tagsByFile.set(uri.toString(), readTags(uri)));
+	}
+
+	forgetTags(uri: vscode.Uri) {
+		this.workspaceTags?.then(tagsByFile => tagsByFile.delete(uri.toString()));
+	}
+
+	async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+		const text = document.getText();
+		const offset = document.offsetAt(position);
+		const location = getLocation(text, offset);
+		const root = parseTree(text);
+		if (!root || root.type !== 'object') {
+			return [];
+		}
+		const jsonPath = location.path;
+		// The key or value being typed, replaced by the completion
+		const previous = location.previousNode?.type === 'property' ? location.previousNode.children?.[0] : location.previousNode;
+		const range = previous ? nodeRange(document, previous) : document.getWordRangeAtPosition(position) ?? new vscode.Range(position, position);
+
+		if (jsonPath[0] === 'questions' && typeof jsonPath[1] === 'number') {
+			const question = findNodeAtLocation(root, jsonPath.slice(0, 2));
+			if (jsonPath.length === 3 && jsonPath[2] === 'type' && !location.isAtPropertyKey && question) {
+				return this.typeCompletions(question, range);
+			}
+			if (jsonPath.length === 4 && jsonPath[2] === 'correct_answers' && question) {
+				return this.answerCompletions(question, range);
+			}
+			if (jsonPath.length === 3 && location.isAtPropertyKey && question?.type === 'object' && (question.children ?? []).every(property => property.children?.[0] === previous)) {
+				return this.scaffoldCompletions(range, false);
+			}
+			if (jsonPath.length === 2 && !question) {
+				return this.scaffoldCompletions(range, true);
+			}
+			return [];
+		}
+
+		if (jsonPath[0] === 'metadata' && jsonPath[1] === 'tags' && jsonPath.length === 3) {
+			return this.tagCompletions(document, getNodeValue(root), range);
+		}
+		if (jsonPath[0] === 'metadata' && jsonPath.length === 2 && location.isAtPropertyKey) {
+			return this.metadataKeyCompletions(document, root, previous, range);
+		}
+		if (jsonPath[0] === 'metadata' && jsonPath.length === 2 && !location.isAtPropertyKey) {
+			return this.enumCompletions(document, getNodeValue(root), String(jsonPath[1]), range);
+		}
+		return [];
+	}
+
+	// Each type, adding the fields of its scaffold that the question does not have yet
+	private typeCompletions(question: JsonNode, range: vscode.Range): vscode.CompletionItem[] {
+		const existing = (question.children ?? []).map(property => property.children?.[0]?.value);
+		return QUESTION_TYPES.map((type, index) => {
+			const fields = QUESTION_SCAFFOLDS[type].filter(([key]) => !existing.includes(key));
+			const item = new vscode.CompletionItem(type, vscode.CompletionItemKind.EnumMember);
+			item.insertText = new vscode.SnippetString(`"${type}"${fields.map(([key, value]) => `,\n"${key}": ${value}`).join('')}`);
+			item.filterText = `"${type}"`;
+			item.range = range;
+			item.sortText = String(index).padStart(2, '0');
+			item.detail = fields.length > 0 ? `Adds ${fields.map(([key]) => key).join(', ')}` : undefined;
+			item.documentation = scaffoldPreview(type, fields);
+			return item;
+		});
+	}
+
+	// The valid indices that are not listed yet, labelled with their option text
+	private answerCompletions(question: JsonNode, range: vscode.Range): vscode.CompletionItem[] {
+		const type = findNodeAtLocation(question, ['type'])?.value;
+		const options = findNodeAtLocation(question, ['options']);
+		const answers = findNodeAtLocation(question, ['correct_answers']);
+		if (!CHOICE_QUESTION_TYPES.includes(type) || options?.type !== 'array') {
+			return [];
+		}
+		const listed = (answers?.children ?? []).map(child => child.value);
+		return (options.children ?? []).flatMap((optionNode, index) => {
+			const text = optionText(getNodeValue(optionNode));
+			if (listed.includes(index) || text === undefined) {
+				return [];
+			}
+			const item = new vscode.CompletionItem({ label: String(index), description: truncateText(text) }, vscode.CompletionItemKind.Value);
+			item.filterText = `${index} ${text}`;
+			item.range = range;
+			item.sortText = String(index).padStart(4, '0');
+			item.documentation = text;
+			return [item];
+		});
+	}
+
+	// A question for each type, as the properties of an empty object or as a whole object
+	private scaffoldCompletions(range: vscode.Range, withBraces: boolean): vscode.CompletionItem[] {
+		return QUESTION_TYPES.map((type, index) => {
+			const fields = QUESTION_SCAFFOLDS[type];
+			const properties = [`"type": "${type}"`, ...fields.map(([key, value]) => `"${key}": ${value}`)].join(',\n');
+			const item = new vscode.CompletionItem(`${type} question`, vscode.CompletionItemKind.Snippet);
+			item.insertText = new vscode.SnippetString(withBraces ? `{\n\t${properties.replace(/\n/g, '\n\t')}\n}` : properties);
+			item.range = range;
+			item.sortText = String(index).padStart(2, '0');
+			item.documentation = scaffoldPreview(type, fields);
+			return item;
+		});
+	}
+
+	// Tags of the other quiz files in the workspace, the most used first
+	private async tagCompletions(document: vscode.TextDocument, quiz: any, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+		const listed: unknown[] = Array.isArray(quiz.metadata?.tags) ? quiz.metadata.tags : [];
+		const counts = new Map<string, number>();
+		this.workspaceTags ??= findWorkspaceTags();
+		for (const [file, tags] of await this.workspaceTags) {
+			if (file === document.uri.toString()) {
+				continue;
+			}
+			for (const tag of await tags) {
+				if (!listed.includes(tag)) {
+					counts.set(tag, (counts.get(tag) ?? 0) + 1);
+				}
+			}
+		}
+		return [...counts].sort(([, a], [, b]) => b - a).map(([tag, count], index) => {
+			const item = new vscode.CompletionItem(tag, vscode.CompletionItemKind.Value);
+			item.insertText = JSON.stringify(tag);
+			item.filterText = JSON.stringify(tag);
+			item.range = range;
+			item.sortText = String(index).padStart(4, '0');
+			item.detail = `Used in ${count} ${count === 1 ? 'quiz' : 'quizzes'}`;
+			return item;
+		});
+	}
+
+	// The metadata properties of the schema that are not set yet, the required ones first
+	private metadataKeyCompletions(document: vscode.TextDocument, root: JsonNode, previous: JsonNode | undefined, range: vscode.Range): vscode.CompletionItem[] {
+		const schema: any = this.getSchema(document, getNodeValue(root));
+		const properties = schema?.properties?.metadata?.properties;
+		const required: unknown[] = schema?.properties?.metadata?.required ?? [];
+		const metadata = findNodeAtLocation(root, ['metadata']);
+		if (!properties || typeof properties !== 'object' || metadata?.type !== 'object') {
+			return [];
+		}
+		const existing = (metadata.children ?? []).map(property => property.children?.[0]).filter(key => key && key !== previous).map(key => key!.value);
+		return Object.keys(properties).filter(key => !existing.includes(key)).map((key, index) => {
+			const property = properties[key];
+			const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+			item.insertText = new vscode.SnippetString(`"${key}": ${valueSnippet(property)}`);
+			item.filterText = `"${key}"`;
+			item.range = range;
+			item.sortText = `${required.includes(key) ? 0 : 1}${String(index).padStart(2, '0')}`;
+			item.detail = required.includes(key) ? 'Required' : undefined;
+			item.documentation = typeof property?.description === 'string' ? property.description : undefined;
+			return item;
+		});
+	}
+
+	// The values the schema allows for a metadata property, such as difficulty
+	private enumCompletions(document: vscode.TextDocument, quiz: any, key: string, range: vscode.Range): vscode.CompletionItem[] {
+		const schema: any = this.getSchema(document, quiz);
+		const values = schema?.properties?.metadata?.properties?.[key]?.enum;
+		if (!Array.isArray(values)) {
+			return [];
+		}
+		return values.map((value: unknown, index: number) => {
+			const item = new vscode.CompletionItem(String(value), vscode.CompletionItemKind.EnumMember);
+			item.insertText = JSON.stringify(value);
+			item.filterText = JSON.stringify(value);
+			item.range = range;
+			item.sortText = String(index).padStart(2, '0');
+			return item;
+		});
+	}
+}
+
+// The tags of the quiz files in the workspace, by URI
+async function findWorkspaceTags(): Promise<Map<string, Promise<string[]>>> {
+	const files = await vscode.workspace.findFiles('**/*.quiz', '**/node_modules/**', MAX_TAG_FILES);
+	return new Map(files.map(file => [file.toString(), readTags(file)]));
+}
+
+// The distinct tags of a quiz file on disk
+async function readTags(file: vscode.Uri): Promise<string[]> {
+	try {
+		const tags = parseJson(new TextDecoder().decode(await vscode.workspace.fs.readFile(file)))?.metadata?.tags;
+		return Array.isArray(tags) ? [...new Set(tags.filter((tag): tag is string => typeof tag === 'string'))] : [];
+	} catch {
+		// Unreadable files have no tags to offer
+		return [];
+	}
+}
+
+// The fields a scaffold adds, shown next to the completion
+function scaffoldPreview(type: string, fields: [string, string][]): vscode.MarkdownString {
+	const preview = [`"type": "${type}"`, ...fields.map(([key, value]) => `"${key}": ${value.replace(/\$\{\d+\|([^,|]*)[^}]*\}|\$\{\d+:([^}]*)\}|\$\d+/g, (_, choice, placeholder) => choice ?? placeholder ?? '')}`)];
+	return new vscode.MarkdownString().appendCodeblock(preview.join(',\n'), 'json');
+}
+
+// A placeholder for a property value of the given schema
+function valueSnippet(property: any): string {
+	if (Array.isArray(property?.enum) && property.enum.length > 0) {
+		return `\${1|${property.enum.map((value: unknown) => JSON.stringify(value).replace(/[,|]/g, '\\$&')).join(',')}|}`;
+	}
+	switch (property?.type) {
+		case 'array':
+			return '[$1]';
+		case 'integer':
+		case 'number':
+			return '${1:0}';
+		default:
+			return '"$1"';
+	}
+}
+
+function nodeRange(document: vscode.TextDocument, node: JsonNode): vscode.Range {
+	return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+}
@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+
+// Replaces the text between start and end with newText, as a single edit covering only the part
+// that changes. Returns undefined when the text stays the same.
+export function minimalEdit(document: vscode.TextDocument, newText: string, start = 0, end = document.getText().length): vscode.TextEdit | undefined {
+	const oldText = document.getText().slice(start, end);
+	if (oldText === newText) {
+		return undefined;
+	}
+	let prefix = 0;
+	const maxPrefix = Math.min(oldText.length, newText.length);
+	while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	const maxSuffix = maxPrefix - prefix;
+	while (suffix < maxSuffix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+		suffix++;
+	}
+	const range = new vscode.Range(document.positionAt(start + prefix), document.positionAt(end - suffix));
+	return vscode.TextEdit.replace(range, newText.slice(prefix, newText.length - suffix));
+}
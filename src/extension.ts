@@ -1,48 +1,76 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import Ajv from 'ajv';
-
-interface QuizMetadata {
-	title: string;
-	description: string;
-	version: string;
-	author: string;
-}
-
-interface BaseQuestion {
-	type: string;
-	text: string;
-	explanation?: string;
-	points?: number;
-}
-
-interface MultipleChoiceQuestion extends BaseQuestion {
-	type: 'multiple_choice';
-	options: string[];
-	correct_answers: number[];
-}
-
-interface SingleChoiceQuestion extends BaseQuestion {
-	type: 'single_choice';
-	options: string[];
-	correct_answers: number[];
+import { parse as parseJson, ParseError } from 'jsonc-parser';
+import { createQuizEdit, QuizCodeActionProvider } from './codeActions';
+import { QuizCodeLensProvider } from './codeLens';
+import { QuizCompletionProvider } from './completion';
+import { QuizFormattingProvider } from './formatter';
+import { QuizHoverProvider } from './hover';
+import { QuizInlayHintsProvider } from './inlayHints';
+import { QuizMediaProvider } from './media';
+import { showQuizPreview, QuizPreviewProvider } from './preview';
+import {
+	deleteOption,
+	duplicateQuestion,
+	findQuestionAt,
+	isOnlyCorrectOption,
+	moveOption,
+	moveQuestion,
+	shuffleAllOptions,
+	shuffleOptions,
+	shuffleQuestions
+} from './refactorings';
+import { QuizSymbolProvider } from './symbols';
+import {
+	createSchemaValidator,
+	extendSchema,
+	findFormatVersion,
+	findMediaReferences,
+	findMigrations,
+	getFormatVersion,
+	parseLintConfig,
+	parseSchemaExtension,
+	readSchemaFiles,
+	ruleDocumentationUrl,
+	seededRandom,
+	validateQuiz,
+	LATEST_FORMAT_VERSION,
+	LINT_CONFIG_FILE,
+	MEDIA_EXTENSIONS,
+	SCHEMA_EXTENSION_FILE,
+	ProblemSeverity,
+	QuizFile,
+	QuizProblem,
+	SchemaExtension,
+	SchemaValidator
+} from './validator';
+
+// The parts of a text document the validator needs, so that files which are not open can be validated too
+type QuizSource = Pick<vscode.TextDocument, 'uri' | 'fileName' | 'getText'>;
+
+// The question, and the option when there is one, a command applies to
+interface QuestionTarget {
+	questionIndex: number;
+	optionIndex?: number;
 }
 
-interface TrueFalseQuestion extends BaseQuestion {
-	type: 'true_false';
-	options: string[];
-	correct_answers: number[];
+// The schema used for a workspace folder, extended by its .quizschema.json when present
+interface WorkspaceSchema {
+	validator?: SchemaValidator;
+	extension?: SchemaExtension;
 }
 
-type Question = MultipleChoiceQuestion | SingleChoiceQuestion | TrueFalseQuestion;
-
-interface QuizFile {
-	metadata: QuizMetadata;
-	questions: Question[];
-}
+const SCHEMA_URI = vscode.Uri.parse('quiz-schema:/quiz-schema.json');
 
 let diagnosticCollection: vscode.DiagnosticCollection;
+const lintConfigCache = new Map<string, Record<string, unknown>>();
+const workspaceSchemaCache = new Map<string, WorkspaceSchema>();
+// Media files referenced by each validated quiz, resolved against its folder, by quiz URI
+const mediaReferenceIndex = new Map<string, string[]>();
+// Media files are often added or removed in batches, so their changes are collected for a moment
+const MEDIA_REVALIDATION_DELAY = 300;
+
 
 export function activate(context: vscode.ExtensionContext) {
 	// Force immediate configuration of file associations
@@ -100,6 +128,10 @@ export function activate(context: vscode.ExtensionContext) {
 	const validateCommand = vscode.commands.registerCommand('quiz-file-support.validateFile', () => {
 		const activeEditor = vscode.window.activeTextEditor;
 		if (activeEditor && isQuizFile(activeEditor.document)) {
+			if (!vscode.workspace.getConfiguration('quiz.validation', activeEditor.document.uri).get<boolean>('enabled', true)) {
+				vscode.window.showWarningMessage('Quiz validation is disabled. Enable the quiz.validation.enabled setting to validate quiz files.');
+				return;
+			}
 			validateQuizFile(activeEditor.document);
 			vscode.window.showInformationMessage('Quiz file validation completed!');
 		} else {
@@ -125,6 +157,7 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const sampleQuiz: QuizFile = {
+			format_version: LATEST_FORMAT_VERSION,
 			metadata: {
 				title: "Sample Quiz",
 				description: "A comprehensive quiz example with all question types",
@@ -135,7 +168,12 @@ export function activate(context: vscode.ExtensionContext) {
 				{
 					type: "multiple_choice",
 					text: "What is the capital of France?",
-					options: ["Madrid", "Paris", "Rome", "Berlin"],
+					options: [
+						{ text: "Madrid", feedback: "Madrid is the capital of Spain." },
+						"Paris",
+						{ text: "Rome", feedback: "Rome is the capital of Italy." },
+						{ text: "Berlin", feedback: "Berlin is the capital of Germany." }
+					],
 					correct_answers: [1],
 					explanation: "Paris is the capital city of France."
 				},
@@ -144,6 +182,7 @@ export function activate(context: vscode.ExtensionContext) {
 					text: "Which of the following are programming languages?",
 					options: ["Python", "HTML", "C++", "CSS"],
 					correct_answers: [0, 2],
+					scoring: { strategy: "proportional" },
 					explanation: "Python and C++ are programming languages, while HTML and CSS are markup/styling languages."
 				},
 				{
@@ -166,6 +205,69 @@ export function activate(context: vscode.ExtensionContext) {
 					options: ["Verdadero", "Falso"],
 					correct_answers: [0],
 					explanation: "Python is indeed an interpreted programming language."
+				},
+				{
+					type: "single_choice",
+					text: "What does this program print?",
+					code: { language: "python", source: "numbers = [1, 2, 3]\nprint(len(numbers))" },
+					options: ["2", "3", "6"],
+					correct_answers: [1],
+					explanation: "len returns the number of items in the list."
+				},
+				{
+					type: "short_answer",
+					text: "The chemical symbol of water is ___ and the symbol of gold is ___.",
+					blanks: [
+						{ answers: ["H2O", "H₂O"], case_sensitive: true },
+						{ answers: ["Au"], case_sensitive: true }
+					],
+					explanation: "Water is made of two hydrogen atoms and one oxygen atom; Au comes from the Latin 'aurum'."
+				},
+				{
+					type: "numeric",
+					text: "What is the acceleration due to gravity at the Earth's surface?",
+					answers: [{ value: 9.81, tolerance: 0.05 }],
+					unit: "m/s²",
+					explanation: "Standard gravity is defined as 9.80665 m/s²."
+				},
+				{
+					type: "matching",
+					text: "Match each planet with its position from the Sun",
+					left: ["Mercury", "Earth", "Jupiter"],
+					right: ["First", "Third", "Fifth", "Seventh"],
+					pairs: [[0, 0], [1, 1], [2, 2]],
+					explanation: "Uranus, the seventh planet, is a distractor."
+				},
+				{
+					type: "ordering",
+					text: "Put these stages of the water cycle in order, starting with evaporation",
+					items: ["Condensation", "Evaporation", "Collection", "Precipitation"],
+					correct_order: [1, 0, 3, 2],
+					explanation: "Water evaporates, condenses into clouds, falls as precipitation and collects."
+				},
+				{
+					type: "essay",
+					text: "Explain why the Moon shows phases",
+					points: 4,
+					rubric: [
+						{
+							criterion: "Accuracy",
+							levels: [
+								{ descriptor: "Blames the Earth's shadow", points: 0 },
+								{ descriptor: "Mentions the Moon's orbit", points: 1 },
+								{ descriptor: "Relates the sunlit half to the orbital position", points: 2 }
+							]
+						},
+						{
+							criterion: "Clarity",
+							levels: [
+								{ descriptor: "Hard to follow", points: 0 },
+								{ descriptor: "Clear and well ordered", points: 2 }
+							]
+						}
+					],
+					word_limit: 150,
+					model_answer: "The Sun always lights half of the Moon. As the Moon orbits the Earth, we see a changing share of that lit half."
 				}
 			]
 		};
@@ -200,12 +302,202 @@ File Size: ${document.getText().length} characters
 		}
 	});
 
-	context.subscriptions.push(validateCommand, forceValidateCommand, createSampleCommand, diagnoseCommand);
+	const validateWorkspaceCommand = vscode.commands.registerCommand('quiz-file-support.validateWorkspace', async () => {
+		if (!vscode.workspace.workspaceFolders) {
+			vscode.window.showErrorMessage('No workspace folder found');
+			return;
+		}
+		if (!vscode.workspace.getConfiguration('quiz.validation').get<boolean>('enabled', true)) {
+			vscode.window.showWarningMessage('Quiz validation is disabled. Enable the quiz.validation.enabled setting to validate quiz files.');
+			return;
+		}
+		const result = await validateWorkspace(vscode.ProgressLocation.Notification);
+		if (result) {
+			vscode.window.showInformationMessage(`Validated ${result.files} quiz file(s): ${result.filesWithErrors} with errors.`);
+		}
+	});
+
+	const migrateCommand = vscode.commands.registerCommand('quiz-file-support.migrateToLatest', async () => {
+		const activeEditor = vscode.window.activeTextEditor;
+		if (!activeEditor || !isQuizFile(activeEditor.document)) {
+			vscode.window.showWarningMessage('Please open a .quiz file to migrate.');
+			return;
+		}
+
+		const document = activeEditor.document;
+		const parseErrors: ParseError[] = [];
+		const quiz = parseJson(document.getText(), parseErrors, { disallowComments: true, allowTrailingComma: false });
+		if (parseErrors.length > 0 || !quiz || typeof quiz !== 'object' || Array.isArray(quiz)) {
+			vscode.window.showErrorMessage('Fix the JSON syntax errors before migrating the quiz file.');
+			return;
+		}
+
+		const version = getFormatVersion(quiz);
+		if (!findFormatVersion(version)) {
+			vscode.window.showErrorMessage(`Cannot migrate: unsupported format_version ${JSON.stringify(version)}.`);
+			return;
+		}
+		const migrations = findMigrations(version as number);
+		if (migrations.length === 0) {
+			vscode.window.showInformationMessage(`The quiz file already uses the latest format version (${LATEST_FORMAT_VERSION}).`);
+			return;
+		}
+
+		// needsConfirmation shows the changes in the refactor preview before they are applied
+		const edit = createQuizEdit(document, migrations, {
+			needsConfirmation: true,
+			label: `Migrate to format version ${LATEST_FORMAT_VERSION}`,
+			description: migrations.map(migration => migration.description).join(', ')
+		});
+		if (edit) {
+			await vscode.workspace.applyEdit(edit);
+		}
+	});
+
+	context.subscriptions.push(validateCommand, forceValidateCommand, createSampleCommand, diagnoseCommand, validateWorkspaceCommand, migrateCommand);
+
+	// Quick fixes for quiz-validator diagnostics
+	context.subscriptions.push(
+		vscode.languages.registerCodeActionsProvider({ language: 'quiz' }, new QuizCodeActionProvider(), {
+			providedCodeActionKinds: QuizCodeActionProvider.providedCodeActionKinds
+		})
+	);
+
+	// Links and thumbnails for media paths
+	const mediaProvider = new QuizMediaProvider();
+	context.subscriptions.push(
+		vscode.languages.registerDocumentLinkProvider({ language: 'quiz' }, mediaProvider),
+		vscode.languages.registerHoverProvider({ language: 'quiz' }, mediaProvider)
+	);
+
+	// Outline, breadcrumbs and Go to Symbol
+	context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider({ language: 'quiz' }, new QuizSymbolProvider()));
+
+	// Canonical formatting, configured by the quiz.format settings
+	const formattingProvider = new QuizFormattingProvider();
+	context.subscriptions.push(
+		vscode.languages.registerDocumentFormattingEditProvider({ language: 'quiz' }, formattingProvider),
+		vscode.languages.registerDocumentRangeFormattingEditProvider({ language: 'quiz' }, formattingProvider)
+	);
+
+	// Option indices and correct answers, configured by the quiz.inlayHints settings
+	const inlayHintsProvider = new QuizInlayHintsProvider();
+	context.subscriptions.push(inlayHintsProvider, vscode.languages.registerInlayHintsProvider({ language: 'quiz' }, inlayHintsProvider));
+
+	// Markdown preview of a quiz or a single question
+	const previewProvider = new QuizPreviewProvider();
+	context.subscriptions.push(
+		previewProvider,
+		vscode.workspace.registerTextDocumentContentProvider(QuizPreviewProvider.scheme, previewProvider),
+		vscode.workspace.onDidChangeTextDocument(event => {
+			if (isQuizFile(event.document)) {
+				previewProvider.refresh(event.document);
+			}
+		}),
+		vscode.commands.registerCommand('quiz-file-support.preview', async (uri?: vscode.Uri) => {
+			const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+			if (!document || !isQuizFile(document)) {
+				vscode.window.showWarningMessage('Please open a .quiz file to preview.');
+				return;
+			}
+			await showQuizPreview(document);
+		}),
+		vscode.commands.registerCommand('quiz-file-support.previewQuestion', async (uri: vscode.Uri, index: number) => {
+			await showQuizPreview(await vscode.workspace.openTextDocument(uri), index);
+		})
+	);
+
+	// Summary line and actions above metadata and each question
+	const applyQuestionEdit = async (uri: vscode.Uri, createEdit: (document: vscode.TextDocument) => vscode.WorkspaceEdit | undefined) => {
+		const edit = createEdit(await vscode.workspace.openTextDocument(uri));
+		if (edit) {
+			await vscode.workspace.applyEdit(edit);
+		}
+	};
+	context.subscriptions.push(
+		vscode.languages.registerCodeLensProvider({ language: 'quiz' }, new QuizCodeLensProvider()),
+		vscode.commands.registerCommand('quiz-file-support.duplicateQuestion', (uri: vscode.Uri, index: number) =>
+			applyQuestionEdit(uri, document => duplicateQuestion(document, index))),
+		vscode.commands.registerCommand('quiz-file-support.moveQuestion', (uri: vscode.Uri, index: number, delta: number) =>
+			applyQuestionEdit(uri, document => moveQuestion(document, index, delta))),
+		vscode.commands.registerCommand('quiz-file-support.shuffleOptions', (uri?: vscode.Uri, index?: number) => {
+			if (uri && index !== undefined) {
+				return applyQuestionEdit(uri, document => shuffleOptions(document, index, shuffleRandom(document)));
+			}
+			return editQuestionAtCursor(false, (document, { questionIndex }) => shuffleOptions(document, questionIndex, shuffleRandom(document)));
+		})
+	);
+
+	// Option and question refactorings that keep correct_answers consistent
+	context.subscriptions.push(
+		vscode.commands.registerCommand('quiz-file-support.moveOptionUp', () =>
+			editQuestionAtCursor(true, (document, { questionIndex, optionIndex }) => moveOption(document, questionIndex, optionIndex!, -1))),
+		vscode.commands.registerCommand('quiz-file-support.moveOptionDown', () =>
+			editQuestionAtCursor(true, (document, { questionIndex, optionIndex }) => moveOption(document, questionIndex, optionIndex!, 1))),
+		vscode.commands.registerCommand('quiz-file-support.deleteOption', () =>
+			editQuestionAtCursor(true, (document, { questionIndex, optionIndex }) => deleteOption(document, questionIndex, optionIndex!), confirmDeleteOption)),
+		vscode.commands.registerCommand('quiz-file-support.shuffleAllOptions', () =>
+			editActiveQuiz(document => shuffleAllOptions(document, shuffleRandom(document)), 'No question has options to shuffle.')),
+		vscode.commands.registerCommand('quiz-file-support.shuffleQuestions', () =>
+			editActiveQuiz(document => shuffleQuestions(document, shuffleRandom(document)), 'The quiz needs at least two questions to shuffle.'))
+	);
+
+	// A seed in quiz.shuffle.seed makes shuffles reproducible
+	function shuffleRandom(document: vscode.TextDocument): () => number {
+		const seed = vscode.workspace.getConfiguration('quiz.shuffle', document.uri).get<number | null>('seed', null);
+		return typeof seed === 'number' ? seededRandom(seed) : Math.random;
+	}
+
+	async function editActiveQuiz(createEdit: (document: vscode.TextDocument) => vscode.WorkspaceEdit | undefined, unavailableMessage: string) {
+		const document = vscode.window.activeTextEditor?.document;
+		if (!document || !isQuizFile(document)) {
+			vscode.window.showWarningMessage('Please open a .quiz file.');
+			return;
+		}
+		const edit = createEdit(document);
+		if (!edit) {
+			vscode.window.showInformationMessage(unavailableMessage);
+			return;
+		}
+		await vscode.workspace.applyEdit(edit);
+	}
+
+	// Edits the question, or the option when needsOption is set, under the cursor. The edit is skipped
+	// when confirm is given and resolves to false.
+	async function editQuestionAtCursor(
+		needsOption: boolean,
+		createEdit: (document: vscode.TextDocument, target: QuestionTarget) => vscode.WorkspaceEdit | undefined,
+		confirm?: (document: vscode.TextDocument, target: QuestionTarget) => Thenable<boolean>
+	) {
+		const editor = vscode.window.activeTextEditor;
+		const target = editor && isQuizFile(editor.document) ? findQuestionAt(editor.document, editor.selection.active) : undefined;
+		if (!editor || !target || (needsOption && target.optionIndex === undefined)) {
+			vscode.window.showWarningMessage(`Place the cursor on ${needsOption ? 'an option' : 'a question'} of a .quiz file.`);
+			return;
+		}
+		if (confirm && !(await confirm(editor.document, target))) {
+			return;
+		}
+		return editActiveQuiz(document => createEdit(document, target), `This command does not apply to question ${target.questionIndex + 1}.`);
+	}
+
+	// Deleting the only correct option leaves correct_answers empty, so it needs a confirmation
+	async function confirmDeleteOption(document: vscode.TextDocument, { questionIndex, optionIndex }: QuestionTarget): Promise<boolean> {
+		if (!isOnlyCorrectOption(document, questionIndex, optionIndex!)) {
+			return true;
+		}
+		const choice = await vscode.window.showWarningMessage(
+			`Option ${optionIndex} is the only correct answer of question ${questionIndex + 1}. Deleting it leaves correct_answers empty.`,
+			{ modal: true },
+			'Delete Option'
+		);
+		return choice === 'Delete Option';
+	}
 
 	// Load JSON schema
-	let schema: any;
-	let validate: any;
-	let schemaLoaded = false;
+	let bundledSchemas: Map<number, object> | undefined;
+	let schemaValidator: SchemaValidator | undefined;
+	let schemaLoadError: unknown;
 	
 	// Try different possible paths for the schema
 	const possibleSchemaPaths = [
@@ -218,25 +510,66 @@ File Size: ${document.getText().length} characters
 	for (const schemaPath of possibleSchemaPaths) {
 		if (fs.existsSync(schemaPath)) {
 			try {
-				const schemaContent = fs.readFileSync(schemaPath, 'utf8');
-				schema = JSON.parse(schemaContent);
-				const ajv = new Ajv({ allErrors: true, strict: false });
-				validate = ajv.compile(schema);
-				schemaLoaded = true;
+				// The schemas of older format versions sit next to the latest one
+				bundledSchemas = readSchemaFiles(path.dirname(schemaPath));
+				schemaValidator = createSchemaValidator(bundledSchemas);
 				console.log(`Schema loaded successfully from: ${schemaPath}`);
 				break;
 			} catch (error) {
 				console.error(`Failed to load schema from ${schemaPath}:`, error);
+				bundledSchemas = undefined;
+				schemaLoadError = error;
 				continue;
 			}
 		}
 	}
 	
-	if (!schemaLoaded) {
+	if (!schemaValidator) {
 		console.error('Failed to load quiz schema from any location');
 		console.error('Tried paths:', possibleSchemaPaths);
+		const reason = schemaLoadError instanceof Error ? schemaLoadError.message : 'schema file not found';
+		vscode.window.showErrorMessage(`Failed to load the quiz schema (${reason}). Quiz files are validated without schema checks.`);
 	}
 
+	// Serves the bundled schema merged with the workspace schema extension, for the jsonValidation contribution
+	const schemaChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+	context.subscriptions.push(
+		schemaChangeEmitter,
+		vscode.workspace.registerTextDocumentContentProvider(SCHEMA_URI.scheme, {
+			onDidChange: schemaChangeEmitter.event,
+			provideTextDocumentContent: () => {
+				const latestSchema = bundledSchemas?.get(LATEST_FORMAT_VERSION);
+				if (!latestSchema) {
+					return '{}';
+				}
+				// jsonValidation accepts a single schema: the first workspace folder with an extension wins
+				const extension = (vscode.workspace.workspaceFolders ?? []).map(loadWorkspaceSchema).find(workspaceSchema => workspaceSchema.extension)?.extension;
+				return JSON.stringify(extension ? extendSchema(latestSchema, extension) : latestSchema, null, 2);
+			}
+		})
+	);
+
+	// Question cards, answer indices and metadata descriptions on hover
+	context.subscriptions.push(
+		vscode.languages.registerHoverProvider({ language: 'quiz' }, new QuizHoverProvider(getQuizSchema))
+	);
+
+	// Question scaffolds, correct_answers indices, workspace tags and metadata values
+	const completionProvider = new QuizCompletionProvider(getQuizSchema);
+	context.subscriptions.push(
+		vscode.languages.registerCompletionItemProvider({ language: 'quiz' }, completionProvider, '"', '[', ',')
+	);
+
+	// The schema of a quiz's format version, extended by the workspace .quizschema.json
+	function getQuizSchema(document: vscode.TextDocument, quiz: unknown): object | undefined {
+		const version = quiz && typeof quiz === 'object' ? getFormatVersion(quiz) : undefined;
+		const schema = (typeof version === 'number' ? bundledSchemas?.get(version) : undefined) ?? bundledSchemas?.get(LATEST_FORMAT_VERSION);
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+		const extension = workspaceFolder ? loadWorkspaceSchema(workspaceFolder).extension : undefined;
+		return schema && extension ? extendSchema(schema, extension) : schema;
+	}
+
+
 	// Force language detection for .quiz files
 	context.subscriptions.push(
 		vscode.workspace.onDidOpenTextDocument(document => {
@@ -277,242 +610,270 @@ File Size: ${document.getText().length} characters
 		})
 	);
 
-	// Function to validate quiz file
-	function validateQuizFile(document: vscode.TextDocument) {
-		if (!document.fileName.endsWith('.quiz')) {
-			return;
-		}
-
-		const diagnostics: vscode.Diagnostic[] = [];
-		
-		try {
-			const text = document.getText();
-			const quiz: any = JSON.parse(text); // Use any to allow flexible validation
-			
-			// Basic structure validation
-			if (!quiz.metadata) {
-				const range = findPropertyRange(document, 'metadata') || new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, 'Missing required property: metadata', vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			} else {
-				// Validate metadata fields
-				validateMetadata(quiz.metadata, document, diagnostics);
+	// Listener for validation settings changes
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('quiz.validation') || event.affectsConfiguration('quiz.lint')) {
+				diagnosticCollection.clear();
+				revalidateAll();
 			}
+		})
+	);
 
-			if (!quiz.questions) {
-				const range = findPropertyRange(document, 'questions') || new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, 'Missing required property: questions', vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			} else {
-				// Validate questions array
-				validateQuestions(quiz.questions, document, diagnostics);
-			}
-			
-			// Validate against JSON schema if available
-			if (validate) {
-				const isValid = validate(quiz);
-				
-				if (!isValid && validate.errors) {
-					for (const error of validate.errors) {
-						const range = findErrorRange(document, error) || new vscode.Range(0, 0, 0, 0);
-						const message = formatSchemaError(error);
-						const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
-						diagnostic.source = 'quiz-schema';
-						diagnostics.push(diagnostic);
-					}
+	// Watcher for workspace lint configuration files
+	const lintConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${LINT_CONFIG_FILE}`);
+	const reloadLintConfig = () => {
+		lintConfigCache.clear();
+		revalidateAll();
+	};
+	lintConfigWatcher.onDidCreate(reloadLintConfig);
+	lintConfigWatcher.onDidChange(reloadLintConfig);
+	lintConfigWatcher.onDidDelete(reloadLintConfig);
+	context.subscriptions.push(lintConfigWatcher);
+
+	// Watcher for workspace schema extensions
+	const schemaExtensionWatcher = vscode.workspace.createFileSystemWatcher(`**/${SCHEMA_EXTENSION_FILE}`);
+	const reloadSchemaExtension = () => {
+		workspaceSchemaCache.clear();
+		schemaChangeEmitter.fire(SCHEMA_URI);
+		revalidateAll();
+	};
+	schemaExtensionWatcher.onDidCreate(reloadSchemaExtension);
+	schemaExtensionWatcher.onDidChange(reloadSchemaExtension);
+	schemaExtensionWatcher.onDidDelete(reloadSchemaExtension);
+	context.subscriptions.push(schemaExtensionWatcher);
+
+	// Watcher for quiz files on disk: re-validates files the validator already knows about
+	// (or every file in background mode), refreshes the tags offered by completion and clears
+	// diagnostics of deleted files
+	const quizFileWatcher = vscode.workspace.createFileSystemWatcher('**/*.quiz');
+	const revalidateQuizUri = (uri: vscode.Uri) => {
+		if (isWorkspaceValidationEnabled() || diagnosticCollection.has(uri)) {
+			validateQuizUri(uri);
+		}
+	};
+	const updateQuizUri = (uri: vscode.Uri) => {
+		revalidateQuizUri(uri);
+		completionProvider.updateTags(uri);
+	};
+	quizFileWatcher.onDidCreate(updateQuizUri);
+	quizFileWatcher.onDidChange(updateQuizUri);
+	quizFileWatcher.onDidDelete(uri => {
+		diagnosticCollection.delete(uri);
+		mediaReferenceIndex.delete(uri.toString());
+		completionProvider.forgetTags(uri);
+	});
+	context.subscriptions.push(quizFileWatcher);
+
+	// Watcher for media files: adding or removing one changes the quiz/media-path results of the quizzes referencing it
+	const mediaExtensions = Object.values(MEDIA_EXTENSIONS).flat().map(extension => extension.slice(1));
+	const mediaWatcher = vscode.workspace.createFileSystemWatcher(`**/*.{${mediaExtensions.join(',')}}`, false, true, false);
+	const changedMediaPaths = new Set<string>();
+	let mediaRevalidationTimer: NodeJS.Timeout | undefined;
+	const revalidateMediaReferences = (uri: vscode.Uri) => {
+		changedMediaPaths.add(path.resolve(uri.fsPath));
+		clearTimeout(mediaRevalidationTimer);
+		mediaRevalidationTimer = setTimeout(() => {
+			for (const [quizUri, mediaPaths] of mediaReferenceIndex) {
+				if (mediaPaths.some(mediaPath => changedMediaPaths.has(mediaPath))) {
+					validateQuizUri(vscode.Uri.parse(quizUri));
 				}
 			}
+			changedMediaPaths.clear();
+		}, MEDIA_REVALIDATION_DELAY);
+	};
+	mediaWatcher.onDidCreate(revalidateMediaReferences);
+	mediaWatcher.onDidDelete(revalidateMediaReferences);
+	context.subscriptions.push(mediaWatcher, { dispose: () => clearTimeout(mediaRevalidationTimer) });
 
-		} catch (error) {
-			// JSON parsing error
-			const range = new vscode.Range(0, 0, 0, 0);
-			const message = `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`;
-			const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
-			diagnostic.source = 'quiz-validator';
-			diagnostics.push(diagnostic);
+	// Background validation of the whole workspace
+	if (isWorkspaceValidationEnabled()) {
+		validateWorkspace(vscode.ProgressLocation.Window);
+	}
+
+	// Re-validates open quiz files, and every workspace quiz file in background mode
+	function revalidateAll() {
+		vscode.workspace.textDocuments.filter(isQuizFile).forEach(validateQuizFile);
+		if (isWorkspaceValidationEnabled()) {
+			validateWorkspace(vscode.ProgressLocation.Window);
 		}
+	}
 
-		diagnosticCollection.set(document.uri, diagnostics);
+	function isWorkspaceValidationEnabled(): boolean {
+		const config = vscode.workspace.getConfiguration('quiz.validation');
+		return config.get<boolean>('enabled', true) && config.get<boolean>('workspace', false);
 	}
 
-	// Helper function to validate metadata
-	function validateMetadata(metadata: any, document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) {
-		const requiredFields = ['title', 'description', 'version', 'author'];
-		
-		for (const field of requiredFields) {
-			if (!metadata[field]) {
-				const range = findPropertyRange(document, `metadata.${field}`) || new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, `Missing required property: metadata.${field}`, vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			} else {
-				// Type validation - all fields must be strings
-				if (typeof metadata[field] !== 'string') {
-					const range = findPropertyRange(document, `metadata.${field}`) || new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `metadata.${field} must be a string`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
+	// Validates a quiz file on disk, preferring the in-memory content when it is open
+	async function validateQuizUri(uri: vscode.Uri) {
+		const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+		if (openDocument) {
+			validateQuizFile(openDocument);
+			return;
+		}
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			validateQuizFile(createQuizSource(uri, new TextDecoder('utf-8').decode(content)));
+		} catch (error) {
+			console.error(`Failed to read ${uri.fsPath}:`, error);
+			diagnosticCollection.delete(uri);
+		}
+	}
+
+	// Validates every .quiz file in the workspace, reporting progress
+	async function validateWorkspace(location: vscode.ProgressLocation): Promise<{ files: number; filesWithErrors: number } | undefined> {
+		return vscode.window.withProgress({ location, title: 'Validating quiz files', cancellable: true }, async (progress, token) => {
+			const uris = await vscode.workspace.findFiles('**/*.quiz', '**/node_modules/**', undefined, token);
+			let filesWithErrors = 0;
+			for (const [index, uri] of uris.entries()) {
+				if (token.isCancellationRequested) {
+					return undefined;
+				}
+				progress.report({ message: `${index + 1}/${uris.length} ${vscode.workspace.asRelativePath(uri)}`, increment: 100 / uris.length });
+				await validateQuizUri(uri);
+				if (diagnosticCollection.get(uri)?.some(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error)) {
+					filesWithErrors++;
 				}
 			}
-		}
+			return { files: uris.length, filesWithErrors };
+		});
 	}
 
-	// Helper function to validate questions
-	function validateQuestions(questions: any, document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) {
-		if (!Array.isArray(questions)) {
-			const range = findPropertyRange(document, 'questions') || new vscode.Range(0, 0, 0, 0);
-			const diagnostic = new vscode.Diagnostic(range, 'questions must be an array', vscode.DiagnosticSeverity.Error);
-			diagnostic.source = 'quiz-validator';
-			diagnostics.push(diagnostic);
+	// Function to validate quiz file
+	function validateQuizFile(document: QuizSource) {
+		if (!document.fileName.endsWith('.quiz')) {
 			return;
 		}
 
-		questions.forEach((question: any, index: number) => {
-			// Validate question type
-			if (!question.type) {
-				const range = new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: Missing required property: type`, vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			} else if (!['multiple_choice', 'single_choice', 'true_false'].includes(question.type)) {
-				const range = new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: Invalid question type '${question.type}'. Supported types: multiple_choice, single_choice, true_false`, vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			}
+		const config = vscode.workspace.getConfiguration('quiz.validation', document.uri);
+		if (!config.get<boolean>('enabled', true)) {
+			diagnosticCollection.delete(document.uri);
+			return;
+		}
 
-			// Validate question text
-			if (!question.text) {
-				const range = new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: Missing required property: text`, vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			} else if (typeof question.text !== 'string') {
-				const range = new vscode.Range(0, 0, 0, 0);
-				const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: text must be a string`, vscode.DiagnosticSeverity.Error);
-				diagnostic.source = 'quiz-validator';
-				diagnostics.push(diagnostic);
-			}
+		// Rule overrides: the workspace .quizlintrc, then the quiz.lint.rules setting
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+		const workspaceSchema = workspaceFolder ? loadWorkspaceSchema(workspaceFolder) : { validator: schemaValidator };
+		indexMediaReferences(document);
+		let diagnostics: vscode.Diagnostic[];
+		try {
+			diagnostics = validateQuiz(document.getText(), {
+				strictMode: config.get<boolean>('strictMode', false),
+				ruleOverrides: [
+					workspaceFolder ? loadLintConfig(workspaceFolder) : {},
+					vscode.workspace.getConfiguration('quiz.lint', document.uri).get<Record<string, unknown>>('rules', {})
+				],
+				schema: workspaceSchema.validator,
+				schemaExtension: workspaceSchema.extension,
+				mediaBaseDirectory: document.uri.scheme === 'file' ? path.dirname(document.uri.fsPath) : undefined
+			}).map(toDiagnostic);
+		} catch (error) {
+			// A bug in a validator must not leave stale diagnostics behind
+			const message = `Quiz validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+			const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), message, vscode.DiagnosticSeverity.Error);
+			diagnostic.source = 'quiz-validator';
+			diagnostics = [diagnostic];
+		}
 
-			// Validate type-specific fields
-			if (['multiple_choice', 'single_choice', 'true_false'].includes(question.type)) {
-				// Validate options (required for all question types)
-				if (!question.options) {
-					const range = new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: Missing required property: options`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
-				} else if (!Array.isArray(question.options)) {
-					const range = new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: options must be an array`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
-				} else {
-					// Type-specific validation for options
-					if (question.type === 'true_false') {
-						if (question.options.length !== 2) {
-							const range = new vscode.Range(0, 0, 0, 0);
-							const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: true_false questions must have exactly 2 options`, vscode.DiagnosticSeverity.Error);
-							diagnostic.source = 'quiz-validator';
-							diagnostics.push(diagnostic);
-						}
-					} else if (question.options.length < 2) {
-						const range = new vscode.Range(0, 0, 0, 0);
-						const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: ${question.type} questions must have at least 2 options`, vscode.DiagnosticSeverity.Warning);
-						diagnostic.source = 'quiz-validator';
-						diagnostics.push(diagnostic);
-					}
-				}
+		if (!config.get<boolean>('showWarnings', true)) {
+			diagnostics = diagnostics.filter(diagnostic => diagnostic.severity !== vscode.DiagnosticSeverity.Warning);
+		}
+		diagnosticCollection.set(document.uri, diagnostics);
+	}
 
-				// Validate correct_answers (required for all question types)
-				if (!question.correct_answers) {
-					const range = new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: Missing required property: correct_answers`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
-				} else if (question.correct_answers === null) {
-					const range = new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: correct_answers cannot be null`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
-				} else if (!Array.isArray(question.correct_answers)) {
-					const range = new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: correct_answers must be an array`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
-				} else if (question.correct_answers.length === 0) {
-					const range = new vscode.Range(0, 0, 0, 0);
-					const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: correct_answers cannot be empty`, vscode.DiagnosticSeverity.Error);
-					diagnostic.source = 'quiz-validator';
-					diagnostics.push(diagnostic);
-				} else {
-					// Type-specific validation for correct_answers
-					if (question.type === 'single_choice' || question.type === 'true_false') {
-						if (question.correct_answers.length !== 1) {
-							const range = new vscode.Range(0, 0, 0, 0);
-							const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: ${question.type} questions must have exactly one correct answer`, vscode.DiagnosticSeverity.Error);
-							diagnostic.source = 'quiz-validator';
-							diagnostics.push(diagnostic);
-						}
-					}
+	// Records the media files a quiz on disk references, so that media changes re-validate only the quizzes they affect
+	function indexMediaReferences(document: QuizSource) {
+		const quiz = document.uri.scheme === 'file' ? parseJson(document.getText()) : undefined;
+		const mediaPaths = findMediaReferences(quiz)
+			.filter(reference => typeof reference.media?.path === 'string')
+			.map(reference => path.resolve(path.dirname(document.uri.fsPath), reference.media.path));
+		if (mediaPaths.length > 0) {
+			mediaReferenceIndex.set(document.uri.toString(), mediaPaths);
+		} else {
+			mediaReferenceIndex.delete(document.uri.toString());
+		}
+	}
 
-					// Validate correct_answers indices for all types
-					if (question.options && Array.isArray(question.options)) {
-						for (const answerIndex of question.correct_answers) {
-							if (typeof answerIndex !== 'number' || answerIndex < 0 || answerIndex >= question.options.length) {
-								const range = new vscode.Range(0, 0, 0, 0);
-								const message = `Question ${index + 1}: correct_answers contains invalid index ${answerIndex}. Valid range: 0-${question.options.length - 1}`;
-								const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
-								diagnostic.source = 'quiz-validator';
-								diagnostics.push(diagnostic);
-							}
-						}
+	// Reads the rule overrides of a workspace .quizlintrc, caching them until the file changes
+	function loadLintConfig(workspaceFolder: vscode.WorkspaceFolder): Record<string, unknown> {
+		const cached = lintConfigCache.get(workspaceFolder.uri.toString());
+		if (cached) {
+			return cached;
+		}
 
-						// Additional validation for true_false questions
-						if (question.type === 'true_false' && question.correct_answers.length === 1) {
-							const answerIndex = question.correct_answers[0];
-							if (answerIndex !== 0 && answerIndex !== 1) {
-								const range = new vscode.Range(0, 0, 0, 0);
-								const diagnostic = new vscode.Diagnostic(range, `Question ${index + 1}: true_false questions must have correct_answers index 0 or 1`, vscode.DiagnosticSeverity.Error);
-								diagnostic.source = 'quiz-validator';
-								diagnostics.push(diagnostic);
-							}
-						}
-					}
+		let rules: Record<string, unknown> = {};
+		const configPath = path.join(workspaceFolder.uri.fsPath, LINT_CONFIG_FILE);
+		if (fs.existsSync(configPath)) {
+			const config = parseLintConfig(fs.readFileSync(configPath, 'utf8'));
+			if (!config.rules) {
+				vscode.window.showErrorMessage(`${LINT_CONFIG_FILE} in ${workspaceFolder.name} is invalid: ${config.problems.join(', ')}`);
+			} else {
+				rules = config.rules;
+				if (config.problems.length > 0) {
+					vscode.window.showWarningMessage(`${LINT_CONFIG_FILE} in ${workspaceFolder.name}: ${config.problems.join(', ')}`);
 				}
 			}
-		});
+		}
+		lintConfigCache.set(workspaceFolder.uri.toString(), rules);
+		return rules;
 	}
 
-	// Helper function to find property range in document
-	function findPropertyRange(document: vscode.TextDocument, property: string): vscode.Range | null {
-		const text = document.getText();
-		const pattern = new RegExp(`"${property.replace('.', '"[\\s\\S]*?"')}"`, 'g');
-		const match = pattern.exec(text);
-		if (match) {
-			const pos = document.positionAt(match.index);
-			return new vscode.Range(pos, pos);
+	// Merges a workspace .quizschema.json into the bundled schemas, caching the result until the file changes.
+	// An invalid extension is reported and the bundled schemas are used instead.
+	function loadWorkspaceSchema(workspaceFolder: vscode.WorkspaceFolder): WorkspaceSchema {
+		const cached = workspaceSchemaCache.get(workspaceFolder.uri.toString());
+		if (cached) {
+			return cached;
 		}
-		return null;
-	}
 
-	// Helper function to find error range for schema errors
-	function findErrorRange(document: vscode.TextDocument, error: any): vscode.Range | null {
-		// For now, return a default range. Could be improved to find exact locations
-		return new vscode.Range(0, 0, 0, 0);
+		let workspaceSchema: WorkspaceSchema = { validator: schemaValidator };
+		const extensionPath = path.join(workspaceFolder.uri.fsPath, SCHEMA_EXTENSION_FILE);
+		if (bundledSchemas && fs.existsSync(extensionPath)) {
+			const { extension, problems } = parseSchemaExtension(fs.readFileSync(extensionPath, 'utf8'));
+			if (!extension) {
+				vscode.window.showErrorMessage(`${SCHEMA_EXTENSION_FILE} in ${workspaceFolder.name} is invalid: ${problems.join(', ')}. Using the bundled schema.`);
+			} else {
+				try {
+					workspaceSchema = { validator: createSchemaValidator(bundledSchemas, extension), extension };
+				} catch (error) {
+					const reason = error instanceof Error ? error.message : String(error);
+					vscode.window.showErrorMessage(`${SCHEMA_EXTENSION_FILE} in ${workspaceFolder.name} is not a valid JSON Schema: ${reason}. Using the bundled schema.`);
+				}
+			}
+		}
+		workspaceSchemaCache.set(workspaceFolder.uri.toString(), workspaceSchema);
+		return workspaceSchema;
 	}
+}
+
+function isQuizFile(document: QuizSource): boolean {
+	return document.fileName.endsWith('.quiz');
+}
+
+function createQuizSource(uri: vscode.Uri, text: string): QuizSource {
+	return { uri, fileName: uri.fsPath, getText: () => text };
+}
 
-	// Helper function to format schema error messages
-	function formatSchemaError(error: any): string {
-		const path = error.instancePath || 'Root';
-		return `${path}: ${error.message}`;
+function toDiagnostic(problem: QuizProblem): vscode.Diagnostic {
+	const { start, end } = problem.range;
+	const range = new vscode.Range(start.line, start.character, end.line, end.character);
+	const diagnostic = new vscode.Diagnostic(range, problem.message, toDiagnosticSeverity(problem.severity));
+	diagnostic.source = problem.source;
+	if (problem.ruleId) {
+		diagnostic.code = { value: problem.ruleId, target: vscode.Uri.parse(ruleDocumentationUrl(problem.ruleId)) };
 	}
+	return diagnostic;
 }
 
-function isQuizFile(document: vscode.TextDocument): boolean {
-	return document.fileName.endsWith('.quiz');
+function toDiagnosticSeverity(severity: ProblemSeverity): vscode.DiagnosticSeverity {
+	switch (severity) {
+		case 'error':
+			return vscode.DiagnosticSeverity.Error;
+		case 'warning':
+			return vscode.DiagnosticSeverity.Warning;
+		case 'info':
+			return vscode.DiagnosticSeverity.Information;
+	}
 }
 
 export function deactivate() {
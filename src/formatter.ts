@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { parseTree, Node as JsonNode, ParseError } from 'jsonc-parser';
+import { minimalEdit } from './edits';
+import { formatQuiz, formatQuizNode, FormatOptions } from './validator';
+
+// Formats quiz documents with canonical key order, configured by the quiz.format settings
+export class QuizFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+	provideDocumentFormattingEdits(document: vscode.TextDocument, formattingOptions: vscode.FormattingOptions): vscode.TextEdit[] {
+		const formatted = formatQuiz(document.getText(), getFormatOptions(document, formattingOptions));
+		const edit = formatted === undefined ? undefined : minimalEdit(document, formatted);
+		return edit ? [edit] : [];
+	}
+
+	// Formats the innermost object or array that contains the range
+	provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range, formattingOptions: vscode.FormattingOptions): vscode.TextEdit[] {
+		const text = document.getText();
+		const errors: ParseError[] = [];
+		const root = parseTree(text, errors, { disallowComments: true, allowTrailingComma: false });
+		if (!root || errors.length > 0) {
+			return [];
+		}
+		const start = document.offsetAt(range.start);
+		const end = document.offsetAt(range.end);
+		const node = findContainer(root, start, end);
+		if (node === root) {
+			return this.provideDocumentFormattingEdits(document, formattingOptions);
+		}
+
+		let level = 0;
+		for (let parent = node.parent; parent; parent = parent.parent) {
+			if (parent.type === 'object' || parent.type === 'array') {
+				level++;
+			}
+		}
+		const formatted = formatQuizNode(text, node, getFormatOptions(document, formattingOptions), level);
+		const edit = minimalEdit(document, formatted, node.offset, node.offset + node.length);
+		return edit ? [edit] : [];
+	}
+}
+
+function getFormatOptions(document: vscode.TextDocument, formattingOptions: vscode.FormattingOptions): FormatOptions {
+	const config = vscode.workspace.getConfiguration('quiz.format', document.uri);
+	return {
+		indent: formattingOptions.insertSpaces ? ' '.repeat(formattingOptions.tabSize) : '\t',
+		eol: document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n',
+		sortKeys: config.get<string>('keyOrder', 'canonical') === 'canonical',
+		normalizeWhitespace: config.get<boolean>('normalizeWhitespace', true),
+		inlineArrayWidth: config.get<number>('inlineArrayWidth', 80)
+	};
+}
+
+// The innermost object or array whose extent covers start to end
+function findContainer(node: JsonNode, start: number, end: number): JsonNode {
+	const child = node.children
+		?.map(candidate => candidate.type === 'property' ? candidate.children?.[1] : candidate)
+		.find(candidate => candidate && (candidate.type === 'object' || candidate.type === 'array') &&
+			candidate.offset <= start && end <= candidate.offset + candidate.length);
+	return child ? findContainer(child, start, end) : node;
+}
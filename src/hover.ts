@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { findNodeAtOffset, getNodePath, getNodeValue, parseTree, Node as JsonNode } from 'jsonc-parser';
+import {
+	findMathSegments,
+	isManuallyGraded,
+	optionFeedback,
+	optionText,
+	questionPoints,
+	renderMathText,
+	resolveScoring,
+	texToUnicode,
+	CHOICE_QUESTION_TYPES,
+	DEFAULT_SCORING
+} from './validator';
+
+// Hovers for quiz documents: a card for each question, the option an index in correct_answers
+// points to, the rendering of $...$ formulas and the schema description of metadata keys
+export class QuizHoverProvider implements vscode.HoverProvider {
+	// Returns the schema a quiz is validated against, if it is loaded
+	constructor(private readonly getSchema: (document: vscode.TextDocument, quiz: unknown) => object | undefined) {}
+
+	provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const root = parseTree(document.getText());
+		const node = root?.type === 'object' ? findNodeAtOffset(root, document.offsetAt(position)) : undefined;
+		if (!root || !node) {
+			return undefined;
+		}
+
+		const jsonPath = getNodePath(node);
+		const isKey = node.parent?.type === 'property' && node.parent.children?.[0] === node;
+		const range = new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+		const quiz = getNodeValue(root);
+
+		if (jsonPath[0] === 'metadata' && isKey && jsonPath.length <= 2) {
+			const markdown = describeMetadataKey(this.getSchema(document, quiz), jsonPath.length === 1 ? undefined : String(jsonPath[1]));
+			return markdown ? new vscode.Hover(markdown, range) : undefined;
+		}
+
+		if (jsonPath[0] !== 'questions' || typeof jsonPath[1] !== 'number' || !Array.isArray(quiz.questions)) {
+			return undefined;
+		}
+		const question = quiz.questions[jsonPath[1]];
+		if (!question || typeof question !== 'object') {
+			return undefined;
+		}
+
+		if (node.type === 'string' && !isKey && isMathText(jsonPath.slice(2))) {
+			const hover = describeFormula(document, node, document.offsetAt(position));
+			if (hover) {
+				return hover;
+			}
+		}
+		if (node.type === 'number' && !isKey) {
+			const markdown = describeIndex(question, jsonPath.slice(2), node);
+			return markdown ? new vscode.Hover(markdown, range) : undefined;
+		}
+		// The card shows on the keys of a question and on its type and text
+		if (jsonPath.length === 3 && (isKey || jsonPath[2] === 'type' || jsonPath[2] === 'text')) {
+			return new vscode.Hover(describeQuestion(quiz, jsonPath[1]), range);
+		}
+		return undefined;
+	}
+}
+
+// Escapes the characters Markdown would interpret in user text
+export function escapeMarkdown(text: string): string {
+	return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
+
+// Backslashes are literal inside code spans, so backticks are dropped instead of escaped
+function inlineCode(value: unknown): string {
+	return `\`${String(value).replace(/`/g, '')}\``;
+}
+
+// Escaped text with its formulas rendered as Unicode
+function formatText(value: unknown): string {
+	return typeof value === 'string' ? escapeMarkdown(renderMathText(value)) : '';
+}
+
+function describeQuestion(quiz: any, index: number): vscode.MarkdownString {
+	const question = quiz.questions[index];
+	const points = questionPoints(question);
+	const header = [`**Question ${index + 1} of ${quiz.questions.length}**`, inlineCode(question.type), `${points} ${points === 1 ? 'point' : 'points'}`];
+	if (isManuallyGraded(question)) {
+		header.push('graded manually');
+	} else {
+		const scoring = resolveScoring(question, quiz.scoring);
+		if (scoring !== DEFAULT_SCORING) {
+			header.push(`${scoring.strategy} scoring`);
+		}
+	}
+
+	const sections = [header.join(' · '), formatText(question.text)];
+	if (typeof question.code?.source === 'string') {
+		sections.push(`\`\`\`${typeof question.code.language === 'string' ? question.code.language : ''}\n${question.code.source.replace(/`{3,}/g, '')}\n\`\`\``);
+	}
+	const answers = describeAnswers(question);
+	if (answers.length > 0) {
+		sections.push(answers.join('\n'));
+	}
+	if (typeof question.explanation === 'string') {
+		sections.push(`*Explanation:* ${formatText(question.explanation)}`);
+	}
+	return new vscode.MarkdownString(sections.filter(section => section !== '').join('\n\n'));
+}
+
+// Markdown list items with the answers of a question, depending on its type
+function describeAnswers(question: any): string[] {
+	if (CHOICE_QUESTION_TYPES.includes(question.type) && Array.isArray(question.options)) {
+		const correct: unknown[] = Array.isArray(question.correct_answers) ? question.correct_answers : [];
+		return question.options.map((option: unknown, optionIndex: number) => {
+			const isCorrect = correct.includes(optionIndex);
+			const text = formatText(optionText(option));
+			const feedback = optionFeedback(option);
+			return `- ${isCorrect ? '✓' : '✗'} \`[${optionIndex}]\` ${isCorrect ? `**${text}**` : text}${feedback ? ` — *${formatText(feedback)}*` : ''}`;
+		});
+	}
+
+	switch (question.type) {
+		case 'short_answer':
+			return arrayOf(question.blanks).map((blank: any, blankIndex: number) =>
+				`- Blank ${blankIndex + 1}: ${arrayOf(blank?.answers).map(inlineCode).join(', ')}${blank?.regex ? ' (regex)' : ''}`);
+		case 'numeric': {
+			const unit = typeof question.unit === 'string' ? ` ${escapeMarkdown(question.unit)}` : '';
+			return arrayOf(question.answers).map((answer: any) => {
+				const tolerance = typeof answer?.tolerance === 'number' ? ` ± ${answer.tolerance}` :
+					typeof answer?.relative_tolerance === 'number' ? ` ± ${answer.relative_tolerance * 100}%` : '';
+				return `- ${answer?.value}${tolerance}${unit}`;
+			});
+		}
+		case 'matching':
+			return arrayOf(question.pairs).filter(Array.isArray).map(([left, right]: unknown[]) =>
+				`- ${formatText(arrayOf(question.left)[left as number])} → ${formatText(arrayOf(question.right)[right as number])}`);
+		case 'ordering':
+			return arrayOf(question.correct_order).map((itemIndex, position) => `${position + 1}. ${formatText(arrayOf(question.items)[itemIndex as number])}`);
+		case 'essay': {
+			const criteria = arrayOf(question.rubric).map((criterion: any) => {
+				const best = Math.max(0, ...arrayOf(criterion?.levels).map((level: any) => typeof level?.points === 'number' ? level.points : 0));
+				return `- ${formatText(criterion?.criterion)} (${best} ${best === 1 ? 'point' : 'points'})`;
+			});
+			return typeof question.word_limit === 'number' ? [...criteria, `- Word limit: ${question.word_limit}`] : criteria;
+		}
+		default:
+			return [];
+	}
+}
+
+// The strings of a question that can hold formulas, as checked by the validator: text, explanation and options
+function isMathText(relativePath: (string | number)[]): boolean {
+	const [property, optionIndex, optionProperty] = relativePath;
+	if (property === 'options') {
+		return typeof optionIndex === 'number' && (relativePath.length === 2 || (relativePath.length === 3 && optionProperty === 'text'));
+	}
+	return relativePath.length === 1 && (property === 'text' || property === 'explanation');
+}
+
+// The formula of a string node that contains the offset, rendered as Unicode
+function describeFormula(document: vscode.TextDocument, node: JsonNode, offset: number): vscode.Hover | undefined {
+	const offsets = valueOffsets(document, node);
+	const segment = findMathSegments(node.value).segments
+		.find(candidate => offsets[candidate.offset] <= offset && offset < offsets[candidate.offset + candidate.length]);
+	if (!segment) {
+		return undefined;
+	}
+	const range = new vscode.Range(document.positionAt(offsets[segment.offset]), document.positionAt(offsets[segment.offset + segment.length]));
+	return new vscode.Hover(new vscode.MarkdownString(`${escapeMarkdown(texToUnicode(segment.tex))}\n\n${inlineCode(segment.tex)}`), range);
+}
+
+// The document offset of every character of a string node's value, followed by the offset of its closing quote.
+// Escape sequences such as \\ and \u00e9 take several characters in the document but one in the value.
+function valueOffsets(document: vscode.TextDocument, node: JsonNode): number[] {
+	const contentStart = node.offset + 1;
+	const raw = document.getText().slice(contentStart, node.offset + node.length - 1);
+	const offsets: number[] = [];
+	for (let index = 0; index < raw.length; index += raw[index] !== '\\' ? 1 : raw[index + 1] === 'u' ? 6 : 2) {
+		offsets.push(contentStart + index);
+	}
+	offsets.push(contentStart + raw.length);
+	return offsets;
+}
+
+// The item an index points to, for indices in correct_answers, correct_order and pairs
+function describeIndex(question: any, relativePath: (string | number)[], node: JsonNode): vscode.MarkdownString | undefined {
+	const index = node.value;
+	const [property, , pairPosition] = relativePath;
+	let label: string;
+	let item: unknown;
+	if (property === 'correct_answers' && relativePath.length === 2) {
+		label = `Option ${index} ✓`;
+		item = arrayOf(question.options)[index];
+	} else if (property === 'correct_order' && relativePath.length === 2) {
+		label = `Item ${index}`;
+		item = arrayOf(question.items)[index];
+	} else if (property === 'pairs' && relativePath.length === 3 && (pairPosition === 0 || pairPosition === 1)) {
+		const side = pairPosition === 0 ? 'left' : 'right';
+		label = `${side === 'left' ? 'Left' : 'Right'} item ${index}`;
+		item = arrayOf(question[side])[index];
+	} else {
+		return undefined;
+	}
+
+	const text = optionText(item);
+	if (text === undefined) {
+		return new vscode.MarkdownString(`**${label}** does not exist`);
+	}
+	const feedback = optionFeedback(item);
+	return new vscode.MarkdownString(`**${label}**\n\n${formatText(text)}${feedback ? `\n\n*Feedback:* ${formatText(feedback)}` : ''}`);
+}
+
+function describeMetadataKey(schema: any, key: string | undefined): vscode.MarkdownString | undefined {
+	const metadataSchema = schema?.properties?.metadata;
+	const propertySchema = key === undefined ? metadataSchema : metadataSchema?.properties?.[key];
+	if (!propertySchema) {
+		return undefined;
+	}
+	const details = [`**${escapeMarkdown(key ?? 'metadata')}**`];
+	if (typeof propertySchema.type === 'string') {
+		details.push(inlineCode(propertySchema.type));
+	}
+	if (key !== undefined && Array.isArray(metadataSchema.required) && metadataSchema.required.includes(key)) {
+		details.push('required');
+	}
+	const sections = [details.join(' · ')];
+	if (typeof propertySchema.description === 'string') {
+		sections.push(escapeMarkdown(propertySchema.description));
+	}
+	if (Array.isArray(propertySchema.enum)) {
+		sections.push(`Allowed values: ${propertySchema.enum.map(inlineCode).join(', ')}`);
+	}
+	return new vscode.MarkdownString(sections.join('\n\n'));
+}
+
+function arrayOf(value: unknown): any[] {
+	return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { findNodeAtLocation, getNodeValue, parseTree } from 'jsonc-parser';
+import { truncateText } from './symbols';
+import { optionText, CHOICE_QUESTION_TYPES } from './validator';
+
+// Answer texts are shorter than symbol names, as they sit inside a line
+const ANSWER_TEXT_LENGTH = 30;
+
+// Option indices, correct-answer markers and the option each correct_answers index points to
+export class QuizInlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeInlayHints = this.changeEmitter.event;
+	private readonly configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('quiz.inlayHints')) {
+			this.changeEmitter.fire();
+		}
+	});
+
+	provideInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+		const config = vscode.workspace.getConfiguration('quiz.inlayHints', document.uri);
+		const showIndices = config.get<boolean>('optionIndices', true);
+		const showCorrect = config.get<boolean>('correctAnswers', true);
+		const showTexts = config.get<boolean>('answerTexts', true);
+		const root = parseTree(document.getText());
+		const questions = root ? findNodeAtLocation(root, ['questions']) : undefined;
+		if (questions?.type !== 'array' || !(showIndices || showCorrect || showTexts)) {
+			return [];
+		}
+
+		const start = document.offsetAt(range.start);
+		const end = document.offsetAt(range.end);
+		const hints: vscode.InlayHint[] = [];
+		for (const question of questions.children ?? []) {
+			if (question.offset + question.length < start || question.offset > end || !CHOICE_QUESTION_TYPES.includes(findNodeAtLocation(question, ['type'])?.value)) {
+				continue;
+			}
+			const options = findNodeAtLocation(question, ['options']);
+			const optionNodes = options?.type === 'array' ? options.children ?? [] : [];
+			const answers = findNodeAtLocation(question, ['correct_answers']);
+			const answerNodes = answers?.type === 'array' ? answers.children ?? [] : [];
+			const correct = answerNodes.map(node => node.value);
+
+			optionNodes.forEach((node, index) => {
+				if (showIndices) {
+					const hint = new vscode.InlayHint(document.positionAt(node.offset), `[${index}]`);
+					hint.paddingRight = true;
+					hints.push(hint);
+				}
+				if (showCorrect && correct.includes(index)) {
+					const hint = new vscode.InlayHint(document.positionAt(node.offset + node.length), '✓');
+					hint.tooltip = 'Correct answer';
+					hint.paddingLeft = true;
+					hints.push(hint);
+				}
+			});
+			if (showTexts) {
+				for (const node of answerNodes) {
+					const text = Number.isInteger(node.value) && optionNodes[node.value] ? optionText(getNodeValue(optionNodes[node.value])) : undefined;
+					if (text !== undefined) {
+						const hint = new vscode.InlayHint(document.positionAt(node.offset + node.length), truncateText(text, ANSWER_TEXT_LENGTH));
+						hint.tooltip = text;
+						hint.paddingLeft = true;
+						hints.push(hint);
+					}
+				}
+			}
+		}
+		return hints;
+	}
+
+	dispose() {
+		this.configurationListener.dispose();
+		this.changeEmitter.dispose();
+	}
+}
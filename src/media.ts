@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { findNodeAtLocation, findNodeAtOffset, getNodePath, getNodeValue, parseTree, Node as JsonNode } from 'jsonc-parser';
+import { escapeMarkdown } from './hover';
+import { findMediaReferences, mediaKind } from './validator';
+
+const THUMBNAIL_WIDTH = 240;
+
+// Ctrl+click on a media path opens the file, and hovering an image path shows a thumbnail
+export class QuizMediaProvider implements vscode.DocumentLinkProvider, vscode.HoverProvider {
+	provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+		const root = parseTree(document.getText());
+		if (!root) {
+			return [];
+		}
+
+		const links: vscode.DocumentLink[] = [];
+		for (const { jsonPath } of findMediaReferences(getNodeValue(root))) {
+			const node = findNodeAtLocation(root, [...jsonPath, 'path']);
+			if (node?.type !== 'string' || node.value === '') {
+				continue;
+			}
+			const link = new vscode.DocumentLink(stringContentRange(document, node), resolveMediaUri(document, node.value));
+			link.tooltip = 'Open media file';
+			links.push(link);
+		}
+		return links;
+	}
+
+	provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const root = parseTree(document.getText());
+		const node = root ? findNodeAtOffset(root, document.offsetAt(position)) : undefined;
+		if (!node || node.type !== 'string' || !isMediaPath(node)) {
+			return undefined;
+		}
+
+		const uri = resolveMediaUri(document, node.value);
+		const media = getNodeValue(node.parent!.parent!);
+		const alt = typeof media.alt === 'string' ? media.alt : '';
+		const markdown = new vscode.MarkdownString();
+		switch (mediaKind(node.value)) {
+			case 'image':
+				markdown.appendMarkdown(`![${escapeMarkdown(alt)}](${uri.toString()}|width=${THUMBNAIL_WIDTH})`);
+				break;
+			case 'audio':
+				markdown.appendMarkdown('$(unmute) Audio file');
+				markdown.supportThemeIcons = true;
+				break;
+			default:
+				return undefined;
+		}
+		if (alt) {
+			markdown.appendMarkdown('\n\n');
+			markdown.appendText(alt);
+		}
+		return new vscode.Hover(markdown, stringContentRange(document, node));
+	}
+}
+
+// Media paths are relative to the folder of the quiz file
+function resolveMediaUri(document: vscode.TextDocument, mediaPath: string): vscode.Uri {
+	return vscode.Uri.joinPath(document.uri, '..', mediaPath);
+}
+
+// Whether a string node is the path value of a question or option media object
+function isMediaPath(node: JsonNode): boolean {
+	if (node.parent?.type !== 'property' || node.parent.children?.[1] !== node) {
+		return false;
+	}
+	const jsonPath = getNodePath(node);
+	return jsonPath[0] === 'questions' && jsonPath[jsonPath.length - 1] === 'path' && jsonPath[jsonPath.length - 2] === 'media' &&
+		(jsonPath.length === 5 || (jsonPath.length === 7 && jsonPath[2] === 'options'));
+}
+
+// The range of a string node without its quotes
+function stringContentRange(document: vscode.TextDocument, node: JsonNode): vscode.Range {
+	return new vscode.Range(document.positionAt(node.offset + 1), document.positionAt(node.offset + node.length - 1));
+}
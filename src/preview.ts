@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { parse as parseJson } from 'jsonc-parser';
+import { quizToMarkdown } from './validator';
+
+interface PreviewQuery {
+	// The quiz document
+	uri: string;
+	questionIndex?: number;
+}
+
+// Serves quizzes rendered as Markdown, shown in the built-in Markdown preview. The preview
+// renders $...$ formulas when markdown.math.enabled is on, which is the default.
+export class QuizPreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+	static readonly scheme = 'quiz-preview';
+
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+	readonly onDidChange = this.changeEmitter.event;
+	// Preview documents by the quiz document they render
+	private readonly previews = new Map<string, vscode.Uri[]>();
+
+	static previewUri(document: vscode.TextDocument, questionIndex?: number): vscode.Uri {
+		const query: PreviewQuery = { uri: document.uri.toString(), questionIndex };
+		const name = questionIndex === undefined ? 'Preview' : `Question ${questionIndex + 1}`;
+		return vscode.Uri.from({ scheme: QuizPreviewProvider.scheme, path: `${document.uri.path} (${name}).md`, query: JSON.stringify(query) });
+	}
+
+	async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+		const query: PreviewQuery = JSON.parse(uri.query);
+		const previews = this.previews.get(query.uri) ?? [];
+		if (!previews.some(preview => preview.toString() === uri.toString())) {
+			this.previews.set(query.uri, [...previews, uri]);
+		}
+
+		const source = vscode.Uri.parse(query.uri);
+		const document = await vscode.workspace.openTextDocument(source);
+		const quiz = parseJson(document.getText());
+		if (!quiz || typeof quiz !== 'object') {
+			return '*The quiz file is not valid JSON.*';
+		}
+		return quizToMarkdown(quiz, {
+			questionIndex: query.questionIndex,
+			mediaTarget: mediaPath => vscode.Uri.joinPath(source, '..', mediaPath).toString()
+		});
+	}
+
+	// Re-renders the open previews of a quiz document
+	refresh(document: vscode.TextDocument) {
+		for (const preview of this.previews.get(document.uri.toString()) ?? []) {
+			this.changeEmitter.fire(preview);
+		}
+	}
+
+	dispose() {
+		this.changeEmitter.dispose();
+	}
+}
+
+// Opens the preview of a quiz, or of one of its questions, next to the editor
+export async function showQuizPreview(document: vscode.TextDocument, questionIndex?: number) {
+	await vscode.commands.executeCommand('markdown.showPreviewToSide', QuizPreviewProvider.previewUri(document, questionIndex));
+}
@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { findNodeAtLocation, findNodeAtOffset, getNodePath, getNodeValue, parseTree, Node as JsonNode } from 'jsonc-parser';
+import { movedOrder, renumberAnswers, shuffledOrder } from './validator';
+
+// Structural edits of questions and options. Nodes are moved as text, so their formatting is kept,
+// and every command is a single WorkspaceEdit that undoes in one step. Reordering options also
+// renumbers correct_answers.
+
+// true_false options keep their conventional True, False order
+const SHUFFLED_QUESTION_TYPES = ['multiple_choice', 'single_choice'];
+
+// The node of each question, or undefined when the document has no questions array
+export function findQuestionNodes(document: vscode.TextDocument): JsonNode[] | undefined {
+	const root = parseTree(document.getText());
+	const questions = root ? findNodeAtLocation(root, ['questions']) : undefined;
+	return questions?.type === 'array' ? questions.children ?? [] : undefined;
+}
+
+// The question, and the option when there is one, at a position of the document
+export function findQuestionAt(document: vscode.TextDocument, position: vscode.Position): { questionIndex: number; optionIndex?: number } | undefined {
+	const root = parseTree(document.getText());
+	const node = root ? findNodeAtOffset(root, document.offsetAt(position), true) : undefined;
+	const jsonPath = node ? getNodePath(node) : [];
+	if (jsonPath[0] !== 'questions' || typeof jsonPath[1] !== 'number') {
+		return undefined;
+	}
+	return { questionIndex: jsonPath[1], optionIndex: jsonPath[2] === 'options' && typeof jsonPath[3] === 'number' ? jsonPath[3] : undefined };
+}
+
+// Whether the options of a question can be shuffled
+export function canShuffleOptions(question: any): boolean {
+	return SHUFFLED_QUESTION_TYPES.includes(question?.type) && Array.isArray(question.options) && question.options.length > 1;
+}
+
+// Inserts a copy of a question after it
+export function duplicateQuestion(document: vscode.TextDocument, index: number): vscode.WorkspaceEdit | undefined {
+	const node = findQuestionNodes(document)?.[index];
+	if (!node) {
+		return undefined;
+	}
+	const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+	const start = document.positionAt(node.offset);
+	const indent = document.lineAt(start.line).text.slice(0, start.character);
+	const edit = new vscode.WorkspaceEdit();
+	edit.insert(document.uri, document.positionAt(node.offset + node.length), `,${eol}${/^\s*$/.test(indent) ? indent : ''}${nodeText(document, node)}`);
+	return edit;
+}
+
+// Moves a question delta positions
+export function moveQuestion(document: vscode.TextDocument, index: number, delta: number): vscode.WorkspaceEdit | undefined {
+	const nodes = findQuestionNodes(document) ?? [];
+	const order = movedOrder(nodes.length, index, delta);
+	if (!order) {
+		return undefined;
+	}
+	const edit = new vscode.WorkspaceEdit();
+	reorderNodes(edit, document, nodes, order);
+	return edit;
+}
+
+// Puts the questions in a random order
+export function shuffleQuestions(document: vscode.TextDocument, random: () => number): vscode.WorkspaceEdit | undefined {
+	const nodes = findQuestionNodes(document) ?? [];
+	if (nodes.length < 2) {
+		return undefined;
+	}
+	const edit = new vscode.WorkspaceEdit();
+	reorderNodes(edit, document, nodes, shuffledOrder(nodes.length, random));
+	return edit;
+}
+
+// Moves an option delta positions
+export function moveOption(document: vscode.TextDocument, questionIndex: number, optionIndex: number, delta: number): vscode.WorkspaceEdit | undefined {
+	const question = findQuestionNodes(document)?.[questionIndex];
+	const optionNodes = question ? findOptionNodes(question) : [];
+	const order = movedOrder(optionNodes.length, optionIndex, delta);
+	if (!question || !order) {
+		return undefined;
+	}
+	const edit = new vscode.WorkspaceEdit();
+	reorderOptions(edit, document, question, optionNodes, order);
+	return edit;
+}
+
+// Removes an option and the correct_answers entry pointing to it
+export function deleteOption(document: vscode.TextDocument, questionIndex: number, optionIndex: number): vscode.WorkspaceEdit | undefined {
+	const question = findQuestionNodes(document)?.[questionIndex];
+	const optionNodes = question ? findOptionNodes(question) : [];
+	const node = optionNodes[optionIndex];
+	if (!question || !node) {
+		return undefined;
+	}
+
+	// The option is removed with the comma that separates it from its neighbour
+	const next = optionNodes[optionIndex + 1];
+	const previous = optionNodes[optionIndex - 1];
+	const start = next || !previous ? node.offset : previous.offset + previous.length;
+	const end = next ? next.offset : node.offset + node.length;
+	const edit = new vscode.WorkspaceEdit();
+	edit.delete(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)));
+	const order = optionNodes.map((_, index) => index).filter(index => index !== optionIndex);
+	renumberCorrectAnswers(edit, document, question, order, optionNodes.length);
+	return edit;
+}
+
+// Whether an option is the only correct answer of its question, so deleting it would leave correct_answers empty
+export function isOnlyCorrectOption(document: vscode.TextDocument, questionIndex: number, optionIndex: number): boolean {
+	const question = findQuestionNodes(document)?.[questionIndex];
+	const answers = question ? findNodeAtLocation(question, ['correct_answers']) : undefined;
+	const values = answers?.type === 'array' ? (answers.children ?? []).map(answer => answer.value) : [];
+	return values.length > 0 && values.every(value => value === optionIndex);
+}
+
+// Puts the options of a question in a random order that differs from the current one
+export function shuffleOptions(document: vscode.TextDocument, questionIndex: number, random: () => number): vscode.WorkspaceEdit | undefined {
+	const question = findQuestionNodes(document)?.[questionIndex];
+	const optionNodes = question ? findOptionNodes(question) : [];
+	if (!question || !canShuffleOptions(getNodeValue(question))) {
+		return undefined;
+	}
+	let order: number[];
+	do {
+		order = shuffledOrder(optionNodes.length, random);
+	} while (order.every((oldIndex, newIndex) => oldIndex === newIndex));
+
+	const edit = new vscode.WorkspaceEdit();
+	reorderOptions(edit, document, question, optionNodes, order);
+	return edit;
+}
+
+// Shuffles the options of every multiple_choice and single_choice question
+export function shuffleAllOptions(document: vscode.TextDocument, random: () => number): vscode.WorkspaceEdit | undefined {
+	const edit = new vscode.WorkspaceEdit();
+	for (const question of findQuestionNodes(document) ?? []) {
+		const optionNodes = findOptionNodes(question);
+		if (canShuffleOptions(getNodeValue(question))) {
+			reorderOptions(edit, document, question, optionNodes, shuffledOrder(optionNodes.length, random));
+		}
+	}
+	return edit.size > 0 ? edit : undefined;
+}
+
+function findOptionNodes(question: JsonNode): JsonNode[] {
+	const options = findNodeAtLocation(question, ['options']);
+	return options?.type === 'array' ? options.children ?? [] : [];
+}
+
+function reorderOptions(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, question: JsonNode, optionNodes: JsonNode[], order: number[]) {
+	reorderNodes(edit, document, optionNodes, order);
+	renumberCorrectAnswers(edit, document, question, order, optionNodes.length);
+}
+
+// Replaces each node that changes position with the text of the node moving there
+function reorderNodes(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, nodes: JsonNode[], order: number[]) {
+	order.forEach((oldIndex, newIndex) => {
+		if (oldIndex !== newIndex) {
+			edit.replace(document.uri, nodeRange(document, nodes[newIndex]), nodeText(document, nodes[oldIndex]));
+		}
+	});
+}
+
+function renumberCorrectAnswers(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, question: JsonNode, order: number[], optionCount: number) {
+	const answers = findNodeAtLocation(question, ['correct_answers']);
+	if (answers?.type !== 'array') {
+		return;
+	}
+	const current = (answers.children ?? []).map(getNodeValue);
+	const renumbered = renumberAnswers(current, order, optionCount);
+	if (JSON.stringify(renumbered) === JSON.stringify(current)) {
+		return;
+	}
+	edit.replace(document.uri, nodeRange(document, answers), `[${renumbered.map(answer => JSON.stringify(answer)).join(', ')}]`);
+}
+
+function nodeRange(document: vscode.TextDocument, node: JsonNode): vscode.Range {
+	return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+}
+
+function nodeText(document: vscode.TextDocument, node: JsonNode): string {
+	return document.getText(nodeRange(document, node));
+}
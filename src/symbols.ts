@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { findNodeAtLocation, getNodeValue, parseTree, Node as JsonNode } from 'jsonc-parser';
+import { optionText, renderMathText, CHOICE_QUESTION_TYPES } from './validator';
+
+// Question and option texts are cut to this many characters in symbol names
+const SYMBOL_TEXT_LENGTH = 40;
+
+// Outline, breadcrumbs and Go to Symbol: metadata, then each question with its options
+export class QuizSymbolProvider implements vscode.DocumentSymbolProvider {
+	provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+		const root = parseTree(document.getText());
+		if (!root || root.type !== 'object') {
+			return [];
+		}
+
+		const symbols: vscode.DocumentSymbol[] = [];
+		const metadata = findNodeAtLocation(root, ['metadata']);
+		if (metadata) {
+			const symbol = createSymbol(document, 'metadata', '', vscode.SymbolKind.Module, metadata.parent!, metadata.parent!.children![0]);
+			for (const property of metadata.type === 'object' ? metadata.children ?? [] : []) {
+				const [key, value] = property.children ?? [];
+				if (key?.value && value) {
+					symbol.children.push(createSymbol(document, key.value, summarize(value), vscode.SymbolKind.Property, property, key));
+				}
+			}
+			symbols.push(symbol);
+		}
+
+		const questions = findNodeAtLocation(root, ['questions']);
+		if (questions?.type === 'array') {
+			questions.children?.forEach((questionNode, index) => symbols.push(createQuestionSymbol(document, questionNode, index)));
+		}
+		return symbols;
+	}
+}
+
+// Shortens a text to one line of at most length characters, with formulas rendered
+export function truncateText(text: string, length = SYMBOL_TEXT_LENGTH): string {
+	const line = renderMathText(text).replace(/\s+/g, ' ').trim();
+	return line.length > length ? `${line.slice(0, length - 1).trimEnd()}…` : line;
+}
+
+function createQuestionSymbol(document: vscode.TextDocument, questionNode: JsonNode, index: number): vscode.DocumentSymbol {
+	const type = findNodeAtLocation(questionNode, ['type'])?.value;
+	const textNode = findNodeAtLocation(questionNode, ['text']);
+	const parts = [`Q${index + 1}`];
+	if (typeof type === 'string') {
+		parts.push(type);
+	}
+	if (typeof textNode?.value === 'string' && textNode.value.trim() !== '') {
+		parts.push(truncateText(textNode.value));
+	}
+	const symbol = createSymbol(document, parts.join(' · '), '', vscode.SymbolKind.Object, questionNode, textNode ?? questionNode);
+
+	const options = findNodeAtLocation(questionNode, ['options']);
+	if (CHOICE_QUESTION_TYPES.includes(type) && options?.type === 'array') {
+		const correctAnswers = findNodeAtLocation(questionNode, ['correct_answers']);
+		const correct = correctAnswers?.type === 'array' ? (correctAnswers.children ?? []).map(child => child.value) : [];
+		options.children?.forEach((optionNode, optionIndex) => {
+			const text = optionText(getNodeValue(optionNode));
+			const name = `[${optionIndex}] ${text?.trim() ? truncateText(text) : `Option ${optionIndex}`}`;
+			symbol.children.push(createSymbol(document, name, correct.includes(optionIndex) ? '✓ correct' : '', vscode.SymbolKind.EnumMember, optionNode, optionNode));
+		});
+	}
+	return symbol;
+}
+
+function createSymbol(document: vscode.TextDocument, name: string, detail: string, kind: vscode.SymbolKind, node: JsonNode, selectionNode: JsonNode): vscode.DocumentSymbol {
+	return new vscode.DocumentSymbol(name, detail, kind, nodeRange(document, node), nodeRange(document, selectionNode));
+}
+
+function nodeRange(document: vscode.TextDocument, node: JsonNode): vscode.Range {
+	return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+}
+
+// The detail of a metadata property: its value when it is a scalar
+function summarize(node: JsonNode): string {
+	switch (node.type) {
+		case 'string':
+			return truncateText(node.value);
+		case 'number':
+		case 'boolean':
+			return String(node.value);
+		case 'array':
+			return `${node.children?.length ?? 0} items`;
+		default:
+			return '';
+	}
+}
@@ -0,0 +1,36 @@
+import { Blank } from './types';
+
+// Blanks are marked with three or more underscores, or numbered as {{1}}, {{2}}, ...
+const BLANK_MARKER_PATTERN = /_{3,}|\{\{\s*(\d+)\s*\}\}/g;
+
+export interface BlankMarker {
+	offset: number;
+	length: number;
+	// Set for {{n}} markers; ___ markers are numbered by their position
+	number?: number;
+}
+
+export function findBlankMarkers(text: string): BlankMarker[] {
+	return [...text.matchAll(BLANK_MARKER_PATTERN)].map(match => ({
+		offset: match.index ?? 0,
+		length: match[0].length,
+		number: match[1] === undefined ? undefined : Number(match[1])
+	}));
+}
+
+// Compiles a regex answer, matching the whole response
+export function compileAnswerPattern(answer: string, caseSensitive: boolean): RegExp {
+	return new RegExp(`^(?:${answer})$`, caseSensitive ? 'u' : 'iu');
+}
+
+// Whether a response fills a blank with one of its accepted answers
+export function isAcceptedAnswer(blank: Blank, response: string): boolean {
+	const caseSensitive = blank.case_sensitive ?? false;
+	const value = (blank.trim_whitespace ?? true) ? response.trim() : response;
+	return blank.answers.some(answer => {
+		if (blank.regex) {
+			return compileAnswerPattern(answer, caseSensitive).test(value);
+		}
+		return caseSensitive ? value === answer : value.toLowerCase() === answer.toLowerCase();
+	});
+}
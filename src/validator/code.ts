@@ -0,0 +1,47 @@
+import { JSONPath } from 'jsonc-parser';
+import { RuleReporter } from './rules';
+
+// Language tags of code blocks. syntaxes/quiz.tmLanguage.json embeds the grammar of each one.
+export const CODE_LANGUAGES: string[] = [
+	'c', 'cpp', 'csharp', 'css', 'go', 'html', 'java', 'javascript', 'json',
+	'php', 'python', 'ruby', 'rust', 'shell', 'sql', 'swift', 'typescript', 'yaml'
+];
+
+// Helper function to validate the code blocks of questions and options
+export function validateCodeBlocks(quiz: any, report: RuleReporter) {
+	if (!Array.isArray(quiz.questions)) {
+		return;
+	}
+
+	quiz.questions.forEach((question: any, index: number) => {
+		if (!question || typeof question !== 'object') {
+			return;
+		}
+		const label = `Question ${index + 1}: `;
+		if (question.code !== undefined) {
+			validateCodeBlock(question.code, ['questions', index, 'code'], label, report);
+		}
+		if (Array.isArray(question.options)) {
+			question.options.forEach((option: any, optionIndex: number) => {
+				if (option?.code !== undefined) {
+					validateCodeBlock(option.code, ['questions', index, 'options', optionIndex, 'code'], `${label}Option ${optionIndex}: `, report);
+				}
+			});
+		}
+	});
+}
+
+function validateCodeBlock(code: any, jsonPath: JSONPath, label: string, report: RuleReporter) {
+	if (!code || typeof code !== 'object' || Array.isArray(code)) {
+		report('quiz/empty-code', jsonPath, `${label}code must be an object with a language and a source`);
+		return;
+	}
+	if (typeof code.language !== 'string') {
+		report('quiz/code-language', jsonPath, `${label}Code block needs a language. Known languages: ${CODE_LANGUAGES.join(', ')}`);
+	} else if (!CODE_LANGUAGES.includes(code.language)) {
+		report('quiz/code-language', [...jsonPath, 'language'], `${label}Unknown code language '${code.language}'. Known languages: ${CODE_LANGUAGES.join(', ')}`);
+	}
+	if (typeof code.source !== 'string' || code.source.trim() === '') {
+		report('quiz/empty-code', code.source === undefined ? jsonPath : [...jsonPath, 'source'], `${label}Code block is empty`);
+	}
+}
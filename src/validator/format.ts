@@ -0,0 +1,127 @@
+import { getNodePath, parseTree, JSONPath, Node as JsonNode, ParseError } from 'jsonc-parser';
+
+export interface FormatOptions {
+	indent: string;
+	eol: string;
+	// Sort known keys into the canonical order; unknown keys follow in their original order
+	sortKeys: boolean;
+	// Collapse runs of spaces in prose strings, keeping indentation. Answers and code are never changed.
+	normalizeWhitespace: boolean;
+	// Arrays of numbers up to this many characters stay on one line; 0 expands every array
+	inlineArrayWidth: number;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+	indent: '  ',
+	eol: '\n',
+	sortKeys: true,
+	normalizeWhitespace: true,
+	inlineArrayWidth: 80
+};
+
+const QUESTION_KEY_ORDER = [
+	'type', 'text', 'code', 'media', 'options', 'correct_answers', 'blanks', 'answers', 'unit', 'left', 'right', 'pairs',
+	'items', 'correct_order', 'rubric', 'word_limit', 'model_answer', 'explanation', 'points', 'scoring', '$lint-disable'
+];
+const SCORING_KEY_ORDER = ['strategy', 'penalty', 'floor'];
+const CODE_KEY_ORDER = ['language', 'source'];
+const MEDIA_KEY_ORDER = ['path', 'alt'];
+
+// Canonical key order of each kind of object, by path pattern (array indices are *)
+const KEY_ORDERS: Record<string, string[]> = {
+	'': ['format_version', 'metadata', 'scoring', 'questions'],
+	'metadata': ['title', 'description', 'version', 'author', 'created_date', 'modified_date', 'tags', 'difficulty', 'time_limit'],
+	'scoring': SCORING_KEY_ORDER,
+	'questions.*': QUESTION_KEY_ORDER,
+	'questions.*.scoring': SCORING_KEY_ORDER,
+	'questions.*.code': CODE_KEY_ORDER,
+	'questions.*.media': MEDIA_KEY_ORDER,
+	'questions.*.options.*': ['text', 'code', 'media', 'feedback'],
+	'questions.*.options.*.code': CODE_KEY_ORDER,
+	'questions.*.options.*.media': MEDIA_KEY_ORDER,
+	'questions.*.blanks.*': ['answers', 'case_sensitive', 'trim_whitespace', 'regex'],
+	'questions.*.answers.*': ['value', 'tolerance', 'relative_tolerance'],
+	'questions.*.rubric.*': ['criterion', 'levels'],
+	'questions.*.rubric.*.levels.*': ['descriptor', 'points']
+};
+
+// Strings read by people, whose whitespace can be normalized
+const PROSE_PATHS = new Set([
+	'metadata.title', 'metadata.description', 'metadata.author',
+	'questions.*.text', 'questions.*.explanation', 'questions.*.model_answer', 'questions.*.media.alt',
+	'questions.*.options.*', 'questions.*.options.*.text', 'questions.*.options.*.feedback', 'questions.*.options.*.media.alt',
+	'questions.*.left.*', 'questions.*.right.*', 'questions.*.items.*',
+	'questions.*.rubric.*.criterion', 'questions.*.rubric.*.levels.*.descriptor'
+]);
+
+// Formats a quiz document, or returns undefined when it is not valid JSON
+export function formatQuiz(text: string, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string | undefined {
+	const errors: ParseError[] = [];
+	const root = parseTree(text, errors, { disallowComments: true, allowTrailingComma: false });
+	if (errors.length > 0 || !root) {
+		return undefined;
+	}
+	return formatQuizNode(text, root, options) + options.eol;
+}
+
+// Formats a node of a parsed quiz text, as it would appear at the given indentation level. Numbers,
+// keys and strings keep their original spelling, and duplicate keys are kept.
+export function formatQuizNode(text: string, node: JsonNode, options: FormatOptions = DEFAULT_FORMAT_OPTIONS, level = 0): string {
+	const indent = options.indent.repeat(level);
+	const itemIndent = indent + options.indent;
+	const source = (literal: JsonNode) => text.slice(literal.offset, literal.offset + literal.length);
+	const children = node.children ?? [];
+
+	if (node.type === 'array') {
+		if (children.length === 0) {
+			return '[]';
+		}
+		if (children.every(item => item.type === 'number')) {
+			const inline = `[${children.map(source).join(', ')}]`;
+			if (inline.length <= options.inlineArrayWidth) {
+				return inline;
+			}
+		}
+		const items = children.map(item => itemIndent + formatQuizNode(text, item, options, level + 1));
+		return `[${options.eol}${items.join(`,${options.eol}`)}${options.eol}${indent}]`;
+	}
+
+	if (node.type === 'object') {
+		if (children.length === 0) {
+			return '{}';
+		}
+		const order = options.sortKeys ? KEY_ORDERS[pathPattern(getNodePath(node))] : undefined;
+		// Known keys by their canonical position, unknown keys after them; the sort is stable
+		const rank = (property: JsonNode) => {
+			const position = order?.indexOf(property.children?.[0]?.value) ?? -1;
+			return position === -1 ? Number.MAX_SAFE_INTEGER : position;
+		};
+		const properties = (order ? [...children].sort((a, b) => rank(a) - rank(b)) : children).map(property => {
+			const [key, value] = property.children!;
+			return `${itemIndent}${source(key)}: ${formatQuizNode(text, value, options, level + 1)}`;
+		});
+		return `{${options.eol}${properties.join(`,${options.eol}`)}${options.eol}${indent}}`;
+	}
+
+	if (node.type === 'string' && options.normalizeWhitespace && PROSE_PATHS.has(pathPattern(getNodePath(node)))) {
+		const normalized = normalizeWhitespace(node.value);
+		return normalized === node.value ? source(node) : JSON.stringify(normalized);
+	}
+	return source(node);
+}
+
+function pathPattern(jsonPath: JSONPath): string {
+	return jsonPath.map(segment => typeof segment === 'number' ? '*' : segment).join('.');
+}
+
+// Collapses runs of spaces and tabs inside each line and removes trailing whitespace. The leading
+// whitespace of the lines of a multi-line text is indentation, such as in code, and is kept;
+// a single line is trimmed.
+function normalizeWhitespace(text: string): string {
+	const lines = text.split(/\r?\n/).map(line => {
+		const indentation = /^[ \t]*/.exec(line)![0];
+		return indentation + line.slice(indentation.length).replace(/[ \t]+/g, ' ').trimEnd();
+	});
+	const normalized = lines.join('\n').trimEnd();
+	return lines.length === 1 ? normalized.trimStart() : normalized;
+}
@@ -0,0 +1,128 @@
+import { JSONPath } from 'jsonc-parser';
+import { RuleReporter } from './rules';
+import { QuizModification, QUESTION_TYPES } from './types';
+
+export const FORMAT_VERSION_KEY = 'format_version';
+
+export interface FormatVersion {
+	version: number;
+	// Schema file in the schemas directory
+	schemaFile: string;
+	deprecated?: boolean;
+}
+
+// Files without format_version use the original format, version 1
+export const LEGACY_FORMAT_VERSION = 1;
+export const LATEST_FORMAT_VERSION = 2;
+
+export const FORMAT_VERSIONS: FormatVersion[] = [
+	{ version: 1, schemaFile: 'quiz-schema-v1.json', deprecated: true },
+	{ version: 2, schemaFile: 'quiz-schema.json' }
+];
+
+// A part of a quiz that only a newer format version supports
+export interface FormatFeature {
+	// The format version that introduced the feature
+	version: number;
+	description: string;
+	jsonPath: JSONPath;
+	// Schema errors at or under this path come from the feature, not from a mistake in it
+	scope: JSONPath;
+}
+
+// The question types of format version 1; the other types came with format version 2
+const VERSION_1_QUESTION_TYPES = ['multiple_choice', 'single_choice', 'true_false'];
+
+export interface Migration {
+	from: number;
+	to: number;
+	description: string;
+	// Modifications are computed against the quiz value produced by the previous migration
+	modifications(quiz: any): QuizModification[];
+}
+
+// Each migration upgrades a file by one format version
+const MIGRATIONS: Migration[] = [
+	{
+		from: 1,
+		to: 2,
+		description: 'Declare format_version 2',
+		modifications: () => [{ path: [FORMAT_VERSION_KEY], value: 2, insertFirst: true }]
+	}
+];
+
+export function findFormatVersion(version: unknown): FormatVersion | undefined {
+	return FORMAT_VERSIONS.find(formatVersion => formatVersion.version === version);
+}
+
+// The declared format version of a quiz, or the legacy version when it declares none
+export function getFormatVersion(quiz: any): unknown {
+	return quiz?.[FORMAT_VERSION_KEY] === undefined ? LEGACY_FORMAT_VERSION : quiz[FORMAT_VERSION_KEY];
+}
+
+// The features a quiz uses that its format version does not support yet
+export function findUnsupportedFeatures(quiz: any): FormatFeature[] {
+	const version = findFormatVersion(getFormatVersion(quiz))?.version;
+	if (version === undefined || version >= LATEST_FORMAT_VERSION) {
+		return [];
+	}
+	const features: FormatFeature[] = [];
+	const addFeature = (description: string, jsonPath: JSONPath, scope = jsonPath) => features.push({ version: 2, description, jsonPath, scope });
+
+	if (quiz.scoring !== undefined) {
+		addFeature('Quiz scoring', ['scoring']);
+	}
+	(Array.isArray(quiz.questions) ? quiz.questions : []).forEach((question: any, index: number) => {
+		if (!question || typeof question !== 'object') {
+			return;
+		}
+		const label = `Question ${index + 1}: `;
+		if (typeof question.type === 'string' && !VERSION_1_QUESTION_TYPES.includes(question.type) && QUESTION_TYPES.includes(question.type)) {
+			// The version 1 schema knows none of the fields of the type either
+			addFeature(`${label}The ${question.type} question type`, ['questions', index, 'type'], ['questions', index]);
+			return;
+		}
+		(Array.isArray(question.options) ? question.options : []).forEach((option: unknown, optionIndex: number) => {
+			if (option && typeof option === 'object') {
+				addFeature(`${label}Option ${optionIndex + 1} as an object`, ['questions', index, 'options', optionIndex]);
+			}
+		});
+		for (const [key, description] of [['code', 'The code block'], ['media', 'The media attachment'], ['scoring', 'Question scoring']]) {
+			if (question[key] !== undefined) {
+				addFeature(`${label}${description}`, ['questions', index, key]);
+			}
+		}
+	});
+	return features.filter(feature => feature.version > version);
+}
+
+// The chain of migrations that upgrades a format version to the latest one
+export function findMigrations(version: number): Migration[] {
+	const migrations: Migration[] = [];
+	let current = version;
+	while (current !== LATEST_FORMAT_VERSION) {
+		const migration = MIGRATIONS.find(candidate => candidate.from === current);
+		if (!migration) {
+			throw new Error(`No migration from format version ${current}`);
+		}
+		migrations.push(migration);
+		current = migration.to;
+	}
+	return migrations;
+}
+
+// Helper function to validate the declared format version
+export function validateFormatVersion(quiz: any, report: RuleReporter) {
+	const version = getFormatVersion(quiz);
+	const formatVersion = findFormatVersion(version);
+	if (!formatVersion) {
+		const supported = FORMAT_VERSIONS.map(candidate => candidate.version).join(', ');
+		report('quiz/format-version', [FORMAT_VERSION_KEY], `Unsupported format_version ${JSON.stringify(version)}. Supported versions: ${supported}`);
+	} else if (formatVersion.deprecated) {
+		report('quiz/deprecated-format-version', [FORMAT_VERSION_KEY], `Format version ${formatVersion.version} is deprecated. Migrate the file to format version ${LATEST_FORMAT_VERSION}`);
+	}
+
+	for (const feature of findUnsupportedFeatures(quiz)) {
+		report('quiz/format-version-features', feature.jsonPath, `${feature.description} is only supported from format version ${feature.version}. Run "QUIZ: Migrate to Latest Format" to declare it`);
+	}
+}
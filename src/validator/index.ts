@@ -0,0 +1,48 @@
+// Headless quiz validation, shared by the VS Code extension and the quiz-lint CLI.
+// Nothing in this module may depend on the vscode API.
+export * from './types';
+export { validateQuiz } from './validate';
+export { findBlankMarkers, isAcceptedAnswer } from './blanks';
+export { optionFeedback, optionText } from './options';
+export { CODE_LANGUAGES } from './code';
+export { findMediaReferences, mediaKind, MEDIA_EXTENSIONS } from './media';
+export type { MediaKind, MediaReference } from './media';
+export { checkTex, findMathSegments, renderMathText, texToUnicode } from './math';
+export type { MathParseResult, MathSegment } from './math';
+export type { BlankMarker } from './blanks';
+export { isAcceptedNumber, numericAnswerRange } from './numeric';
+export type { NumericRange } from './numeric';
+export { resolveScoring, scoreChoiceResponse, DEFAULT_POINTS, DEFAULT_SCORING, SCORING_STRATEGY_QUESTION_TYPES } from './scoring';
+export { computeQuizStatistics, estimateQuestionSeconds, questionPoints, QUESTION_TIME_ESTIMATES } from './statistics';
+export type { QuizStatistics } from './statistics';
+export { formatQuiz, formatQuizNode, DEFAULT_FORMAT_OPTIONS } from './format';
+export type { FormatOptions } from './format';
+export { quizToMarkdown } from './markdown';
+export type { MarkdownOptions } from './markdown';
+export { movedOrder, renumberAnswers, seededRandom, shuffledOrder } from './shuffle';
+export type { ValidationOptions } from './validate';
+export {
+	findFormatVersion,
+	findMigrations,
+	getFormatVersion,
+	FORMAT_VERSION_KEY,
+	FORMAT_VERSIONS,
+	LATEST_FORMAT_VERSION,
+	LEGACY_FORMAT_VERSION
+} from './formatVersion';
+export type { FormatVersion, Migration } from './formatVersion';
+export { createSchemaValidator, readSchemaFiles } from './schema';
+export type { SchemaError, SchemaValidator } from './schema';
+export { extendSchema, parseSchemaExtension, SCHEMA_EXTENSION_FILE } from './schemaExtension';
+export type { SchemaExtension, SchemaExtensionConfig, SchemaFragment } from './schemaExtension';
+export {
+	findLintRule,
+	isRuleSeverity,
+	parseLintConfig,
+	resolveRuleSeverities,
+	ruleDocumentationUrl,
+	LINT_CONFIG_FILE,
+	LINT_DISABLE_KEY,
+	LINT_RULES
+} from './rules';
+export type { LintConfig, LintRule, RuleSeverity } from './rules';
@@ -0,0 +1,115 @@
+import { findNodeAtLocation, printParseErrorCode, JSONPath, Node as JsonNode, ParseError } from 'jsonc-parser';
+import { Position, Range } from './types';
+
+export type PositionAt = (offset: number) => Position;
+
+export interface Location {
+	offset: number;
+	length: number;
+	range: Range;
+}
+
+// Builds an offset to line/character converter for a text
+export function createPositionAt(text: string): PositionAt {
+	const lineStarts = [0];
+	for (let offset = 0; offset < text.length; offset++) {
+		if (text[offset] === '\n') {
+			lineStarts.push(offset + 1);
+		}
+	}
+	return offset => {
+		const clamped = Math.min(Math.max(offset, 0), text.length);
+		let low = 0;
+		let high = lineStarts.length - 1;
+		while (low < high) {
+			const middle = Math.ceil((low + high) / 2);
+			if (lineStarts[middle] <= clamped) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+		return { line: low, character: clamped - lineStarts[low] };
+	};
+}
+
+export function offsetLocation(positionAt: PositionAt, offset: number, length: number): Location {
+	const end = offset + Math.max(length, 1);
+	return { offset, length: Math.max(length, 1), range: { start: positionAt(offset), end: positionAt(end) } };
+}
+
+// Resolves a JSON path to the location of its node. When the path does not exist
+// (e.g. a missing property), the closest existing ancestor is used as anchor.
+export function locationForPath(positionAt: PositionAt, root: JsonNode | undefined, jsonPath: JSONPath, preferKey = false): Location {
+	if (!root) {
+		return offsetLocation(positionAt, 0, 0);
+	}
+	for (let depth = jsonPath.length; depth >= 0; depth--) {
+		const node = findNodeAtLocation(root, jsonPath.slice(0, depth));
+		if (!node) {
+			continue;
+		}
+		const keyNode = node.parent?.type === 'property' ? node.parent.children?.[0] : undefined;
+		if (depth === jsonPath.length && (!preferKey || !keyNode)) {
+			return nodeLocation(positionAt, node);
+		}
+		// Missing property: point at the key of the containing property, or at its opening brace
+		if (keyNode) {
+			return offsetLocation(positionAt, keyNode.offset, keyNode.length);
+		}
+		return offsetLocation(positionAt, node.offset, 1);
+	}
+	return offsetLocation(positionAt, 0, 0);
+}
+
+// Single-line nodes are underlined entirely; multi-line objects and arrays only at their key or opening bracket
+function nodeLocation(positionAt: PositionAt, node: JsonNode): Location {
+	const location = offsetLocation(positionAt, node.offset, node.length);
+	if (location.range.start.line === location.range.end.line || (node.type !== 'object' && node.type !== 'array')) {
+		return location;
+	}
+	const keyNode = node.parent?.type === 'property' ? node.parent.children?.[0] : undefined;
+	if (keyNode) {
+		return offsetLocation(positionAt, keyNode.offset, keyNode.length);
+	}
+	return offsetLocation(positionAt, node.offset, 1);
+}
+
+// Converts an Ajv instancePath such as "/questions/3/correct_answers/1" into a JSON path
+export function instancePathToJsonPath(instancePath: string): JSONPath {
+	if (!instancePath) {
+		return [];
+	}
+	return instancePath.split('/').slice(1).map(segment => {
+		const unescaped = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+		return /^\d+$/.test(unescaped) ? Number(unescaped) : unescaped;
+	});
+}
+
+// Whether a JSON path is the ancestor path or lies inside it
+export function isPathWithin(jsonPath: JSONPath, ancestor: JSONPath): boolean {
+	return ancestor.length <= jsonPath.length && ancestor.every((segment, index) => jsonPath[index] === segment);
+}
+
+export function describeParseError(parseError: ParseError): string {
+	const messages: Record<string, string> = {
+		InvalidSymbol: 'Invalid symbol',
+		InvalidNumberFormat: 'Invalid number format',
+		PropertyNameExpected: 'Property name expected',
+		ValueExpected: 'Value expected',
+		ColonExpected: 'Colon expected',
+		CommaExpected: 'Comma expected',
+		CloseBraceExpected: 'Closing brace expected',
+		CloseBracketExpected: 'Closing bracket expected',
+		EndOfFileExpected: 'End of file expected',
+		InvalidCommentToken: 'Comments are not permitted in quiz files',
+		UnexpectedEndOfComment: 'Unexpected end of comment',
+		UnexpectedEndOfString: 'Unexpected end of string',
+		UnexpectedEndOfNumber: 'Unexpected end of number',
+		InvalidUnicode: 'Invalid unicode sequence',
+		InvalidEscapeCharacter: 'Invalid escape character',
+		InvalidCharacter: 'Invalid character'
+	};
+	const code = printParseErrorCode(parseError.error);
+	return messages[code] ?? code;
+}
@@ -0,0 +1,133 @@
+import { optionFeedback, optionText } from './options';
+import { computeQuizStatistics, questionPoints } from './statistics';
+import { CHOICE_QUESTION_TYPES, isManuallyGraded } from './types';
+
+export interface MarkdownOptions {
+	// Renders only this question
+	questionIndex?: number;
+	// Turns a media path into a link target; paths are kept as written by default
+	mediaTarget?: (mediaPath: string) => string;
+}
+
+// Renders a quiz as Markdown for the preview. Texts are written as is, so their $...$ formulas
+// are rendered by the Markdown math support.
+export function quizToMarkdown(quiz: any, options: MarkdownOptions = {}): string {
+	const questions: unknown[] = Array.isArray(quiz?.questions) ? quiz.questions : [];
+	const lines: string[] = [];
+	const title = typeof quiz?.metadata?.title === 'string' && quiz.metadata.title.trim() ? quiz.metadata.title : 'Untitled quiz';
+	lines.push(`# ${title}`, '');
+
+	if (options.questionIndex === undefined) {
+		if (typeof quiz?.metadata?.description === 'string') {
+			lines.push(quiz.metadata.description, '');
+		}
+		const statistics = computeQuizStatistics(quiz);
+		const summary = [plural(statistics.questionCount, 'question'), plural(statistics.totalPoints, 'point'), `about ${plural(statistics.estimatedMinutes, 'minute')}`];
+		if (statistics.timeLimit !== undefined) {
+			summary.push(`time limit ${plural(statistics.timeLimit, 'minute')}`);
+		}
+		lines.push(`*${summary.join(' · ')}*`, '');
+	}
+
+	questions.forEach((question, index) => {
+		if ((options.questionIndex === undefined || options.questionIndex === index) && question && typeof question === 'object') {
+			lines.push(...questionToMarkdown(question, index, questions.length, options));
+		}
+	});
+	return lines.join('\n');
+}
+
+function questionToMarkdown(question: any, index: number, count: number, options: MarkdownOptions): string[] {
+	const points = questionPoints(question);
+	const header = [`Question ${index + 1} of ${count}`, `\`${String(question.type)}\``, plural(points, 'point')];
+	if (isManuallyGraded(question)) {
+		header.push('graded manually');
+	}
+	const lines = [`## ${header.join(' · ')}`, ''];
+	if (typeof question.text === 'string') {
+		lines.push(question.text, '');
+	}
+	lines.push(...attachments(question, options));
+
+	if (CHOICE_QUESTION_TYPES.includes(question.type) && Array.isArray(question.options)) {
+		const correct: unknown[] = Array.isArray(question.correct_answers) ? question.correct_answers : [];
+		question.options.forEach((option: unknown, optionIndex: number) => {
+			const text = optionText(option) ?? '';
+			const isCorrect = correct.includes(optionIndex);
+			lines.push(`- ${isCorrect ? '✅' : '⬜'} ${isCorrect ? `**${text}**` : text}`);
+			const feedback = optionFeedback(option);
+			if (feedback) {
+				lines.push(`  > ${feedback}`);
+			}
+			if (option && typeof option === 'object') {
+				lines.push(...attachments(option, options).map(line => line && `  ${line}`));
+			}
+		});
+		lines.push('');
+	} else {
+		lines.push(...answerLines(question), '');
+	}
+
+	if (typeof question.explanation === 'string') {
+		lines.push(`> **Explanation:** ${question.explanation}`, '');
+	}
+	return lines;
+}
+
+// The code block and media of a question or option
+function attachments(item: any, options: MarkdownOptions): string[] {
+	const lines: string[] = [];
+	if (typeof item.code?.source === 'string') {
+		const fence = '`'.repeat(Math.max(3, ...(item.code.source.match(/`+/g) ?? []).map((ticks: string) => ticks.length + 1)));
+		lines.push(`${fence}${typeof item.code.language === 'string' ? item.code.language : ''}`, item.code.source, fence, '');
+	}
+	if (typeof item.media?.path === 'string') {
+		const target = options.mediaTarget ? options.mediaTarget(item.media.path) : item.media.path;
+		const alt = typeof item.media.alt === 'string' ? item.media.alt.replace(/[[\]]/g, '') : '';
+		lines.push(`![${alt}](<${target}>)`, '');
+	}
+	return lines;
+}
+
+function answerLines(question: any): string[] {
+	const list = (value: unknown): any[] => Array.isArray(value) ? value : [];
+	switch (question.type) {
+		case 'short_answer':
+			return list(question.blanks).map((blank: any, blankIndex: number) =>
+				`- Blank ${blankIndex + 1}: ${list(blank?.answers).map(answer => `\`${String(answer)}\``).join(', ')}`);
+		case 'numeric':
+			return list(question.answers).map((answer: any) => {
+				const tolerance = typeof answer?.tolerance === 'number' ? ` ± ${answer.tolerance}` :
+					typeof answer?.relative_tolerance === 'number' ? ` ± ${answer.relative_tolerance * 100}%` : '';
+				return `- ${answer?.value}${tolerance}${typeof question.unit === 'string' ? ` ${question.unit}` : ''}`;
+			});
+		case 'matching':
+			return ['| Left | Right |', '| --- | --- |', ...list(question.pairs).filter(Array.isArray).map(([left, right]: number[]) =>
+				`| ${tableCell(list(question.left)[left])} | ${tableCell(list(question.right)[right])} |`)];
+		case 'ordering':
+			return list(question.correct_order).map((itemIndex: number, position: number) => `${position + 1}. ${list(question.items)[itemIndex] ?? ''}`);
+		case 'essay': {
+			const lines = list(question.rubric).flatMap((criterion: any) => [
+				`- **${criterion?.criterion ?? ''}**`,
+				...list(criterion?.levels).map((level: any) => `  - ${plural(level?.points, 'point')}: ${level?.descriptor ?? ''}`)
+			]);
+			if (typeof question.word_limit === 'number') {
+				lines.push('', `*Word limit: ${question.word_limit}*`);
+			}
+			if (typeof question.model_answer === 'string') {
+				lines.push('', `> **Model answer:** ${question.model_answer}`);
+			}
+			return lines;
+		}
+		default:
+			return [];
+	}
+}
+
+function tableCell(value: unknown): string {
+	return typeof value === 'string' ? value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ') : '';
+}
+
+function plural(count: number, noun: string): string {
+	return `${count} ${count === 1 ? noun : `${noun}s`}`;
+}
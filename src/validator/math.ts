@@ -0,0 +1,281 @@
+import { JSONPath } from 'jsonc-parser';
+import { RuleReporter } from './rules';
+
+// Unicode renderings of TeX commands and of superscript and subscript characters, for hovers
+const TEX_SYMBOLS: Record<string, string> = {
+	alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+	kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ', phi: 'φ',
+	varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω', Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ',
+	Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+	times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓', leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠',
+	approx: '≈', equiv: '≡', propto: '∝', infty: '∞', sum: '∑', prod: '∏', int: '∫', partial: '∂', nabla: '∇',
+	to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', Leftrightarrow: '⇔', mapsto: '↦',
+	in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', supset: '⊃', cup: '∪', cap: '∩', forall: '∀', exists: '∃',
+	emptyset: '∅', neg: '¬', land: '∧', lor: '∨', circ: '∘', degree: '°', ldots: '…', cdots: '⋯', dots: '…',
+	langle: '⟨', rangle: '⟩', quad: ' ', qquad: '  ', left: '', right: '', displaystyle: '', ',': ' ', ';': ' ', ':': ' ', '!': ''
+};
+const SUPERSCRIPTS: Record<string, string> = {
+	0: '⁰', 1: '¹', 2: '²', 3: '³', 4: '⁴', 5: '⁵', 6: '⁶', 7: '⁷', 8: '⁸', 9: '⁹',
+	'+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ', x: 'ˣ'
+};
+const SUBSCRIPTS: Record<string, string> = {
+	0: '₀', 1: '₁', 2: '₂', 3: '₃', 4: '₄', 5: '₅', 6: '₆', 7: '₇', 8: '₈', 9: '₉',
+	'+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎', a: 'ₐ', e: 'ₑ', i: 'ᵢ', j: 'ⱼ', k: 'ₖ', m: 'ₘ', n: 'ₙ', o: 'ₒ', x: 'ₓ'
+};
+const TEXT_COMMANDS = ['text', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'operatorname', 'textbf', 'textit'];
+
+// A $...$ or $$...$$ formula in a text; offset and length include the delimiters
+export interface MathSegment {
+	offset: number;
+	length: number;
+	tex: string;
+	display: boolean;
+}
+
+export interface MathParseResult {
+	segments: MathSegment[];
+	// Set when a delimiter is never closed; the rest of the text is not parsed
+	unclosed?: { offset: number; delimiter: string };
+}
+
+// Finds the formulas of a text. \$ is a literal dollar sign.
+export function findMathSegments(text: string): MathParseResult {
+	const segments: MathSegment[] = [];
+	let index = 0;
+	while (index < text.length) {
+		if (text[index] === '\\') {
+			index += 2;
+			continue;
+		}
+		if (text[index] !== '$') {
+			index++;
+			continue;
+		}
+
+		const display = text[index + 1] === '$';
+		const delimiter = display ? '$$' : '$';
+		const contentStart = index + delimiter.length;
+		const close = findClosingDelimiter(text, contentStart, delimiter);
+		if (close === -1) {
+			return { segments, unclosed: { offset: index, delimiter } };
+		}
+		segments.push({ offset: index, length: close + delimiter.length - index, tex: text.slice(contentStart, close), display });
+		index = close + delimiter.length;
+	}
+	return { segments };
+}
+
+// Checks the structure of a formula: braces, \left and \right, \begin and \end, and the
+// arguments of ^ and _. Returns a description of the first problem, or undefined.
+export function checkTex(tex: string): string | undefined {
+	if (tex.trim() === '') {
+		return 'Empty formula';
+	}
+
+	const groups: string[] = [];
+	let index = 0;
+	while (index < tex.length) {
+		const character = tex[index];
+		if (character === '\\') {
+			const command = /^\\([a-zA-Z]+|[^a-zA-Z])/.exec(tex.slice(index));
+			if (!command) {
+				return 'Backslash at the end of the formula';
+			}
+			index += command[0].length;
+			const name = command[1];
+			if (name === 'left') {
+				groups.push('\\left');
+			} else if (name === 'right') {
+				if (groups[groups.length - 1] !== '\\left') {
+					return '\\right without a matching \\left';
+				}
+				groups.pop();
+			} else if (name === 'begin' || name === 'end') {
+				const environment = /^\s*\{([^{}]*)\}/.exec(tex.slice(index));
+				if (!environment) {
+					return `\\${name} needs an environment name`;
+				}
+				index += environment[0].length;
+				if (name === 'begin') {
+					groups.push(`\\begin{${environment[1]}}`);
+				} else if (groups[groups.length - 1] !== `\\begin{${environment[1]}}`) {
+					return `\\end{${environment[1]}} does not match ${groups[groups.length - 1] ?? 'any \\begin'}`;
+				} else {
+					groups.pop();
+				}
+			}
+			continue;
+		}
+
+		if (character === '{') {
+			groups.push('{');
+		} else if (character === '}') {
+			if (groups[groups.length - 1] !== '{') {
+				return groups.length > 0 ? `Unexpected } before the end of ${groups[groups.length - 1]}` : 'Unexpected }';
+			}
+			groups.pop();
+		} else if (character === '^' || character === '_') {
+			const argument = tex.slice(index + 1).trimStart()[0];
+			if (argument === undefined || argument === '}' || argument === '^' || argument === '_') {
+				return `Missing ${character === '^' ? 'superscript' : 'subscript'} after ${character}`;
+			}
+		}
+		index++;
+	}
+
+	const open = groups[groups.length - 1];
+	if (open === '{') {
+		return 'Missing }';
+	}
+	if (open === '\\left') {
+		return '\\left without a matching \\right';
+	}
+	return open ? `${open} without a matching \\end` : undefined;
+}
+
+// Helper function to validate the formulas in question texts, options and explanations
+export function validateMath(quiz: any, report: RuleReporter) {
+	if (!Array.isArray(quiz.questions)) {
+		return;
+	}
+
+	quiz.questions.forEach((question: any, index: number) => {
+		if (!question || typeof question !== 'object') {
+			return;
+		}
+		const texts: { jsonPath: JSONPath; name: string; value: unknown }[] = [
+			{ jsonPath: ['text'], name: 'text', value: question.text },
+			{ jsonPath: ['explanation'], name: 'explanation', value: question.explanation }
+		];
+		if (Array.isArray(question.options)) {
+			question.options.forEach((option: any, optionIndex: number) => {
+				const isString = typeof option === 'string';
+				texts.push({ jsonPath: isString ? ['options', optionIndex] : ['options', optionIndex, 'text'], name: `option ${optionIndex}`, value: isString ? option : option?.text });
+			});
+		}
+
+		for (const { jsonPath, name, value } of texts) {
+			if (typeof value !== 'string') {
+				continue;
+			}
+			const questionPath: JSONPath = ['questions', index, ...jsonPath];
+			const { segments, unclosed } = findMathSegments(value);
+			if (unclosed) {
+				report('quiz/math-delimiters', questionPath, `Question ${index + 1}: Unclosed ${unclosed.delimiter} in ${name}. Write \\\\$ for a literal dollar sign`);
+			}
+			for (const segment of segments) {
+				const problem = checkTex(segment.tex);
+				if (problem) {
+					report('quiz/math-syntax', questionPath, `Question ${index + 1}: Invalid formula ${value.slice(segment.offset, segment.offset + segment.length)} in ${name}: ${problem}`);
+				}
+			}
+		}
+	});
+}
+
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+	let index = start;
+	while (index < text.length) {
+		if (text[index] === '\\') {
+			index += 2;
+		} else if (text.startsWith(delimiter, index)) {
+			return index;
+		} else {
+			index++;
+		}
+	}
+	return -1;
+}
+
+// Renders a formula as plain Unicode text for hovers, e.g. \frac{1}{2} as 1/2 and x^2 as x².
+// This is an approximation: layout such as matrices is flattened.
+export function texToUnicode(tex: string): string {
+	let index = 0;
+
+	const readGroup = (): string => {
+		while (tex[index] === ' ') {
+			index++;
+		}
+		if (tex[index] === '{') {
+			index++;
+			const content = readSequence('}');
+			index++;
+			return content;
+		}
+		if (tex[index] === '\\') {
+			return readCommand();
+		}
+		return tex[index++] ?? '';
+	};
+
+	const readCommand = (): string => {
+		const command = /^\\([a-zA-Z]+|.)/.exec(tex.slice(index));
+		if (!command) {
+			index++;
+			return '';
+		}
+		index += command[0].length;
+		const name = command[1];
+		if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+			const numerator = readGroup();
+			const denominator = readGroup();
+			return `${parenthesize(numerator)}/${parenthesize(denominator)}`;
+		}
+		if (name === 'sqrt') {
+			return `√${parenthesize(readGroup())}`;
+		}
+		if (TEXT_COMMANDS.includes(name)) {
+			return readGroup();
+		}
+		if (name === 'begin' || name === 'end') {
+			readGroup();
+			return ' ';
+		}
+		return TEX_SYMBOLS[name] ?? name;
+	};
+
+	const readSequence = (terminator?: string): string => {
+		let result = '';
+		while (index < tex.length && tex[index] !== terminator) {
+			const character = tex[index];
+			if (character === '\\') {
+				result += readCommand();
+			} else if (character === '^' || character === '_') {
+				index++;
+				const script = readGroup();
+				const table = character === '^' ? SUPERSCRIPTS : SUBSCRIPTS;
+				const mapped = [...script].map(symbol => table[symbol]);
+				result += mapped.every(symbol => symbol !== undefined) ? mapped.join('') : `${character}${script.length > 1 ? `(${script})` : script}`;
+			} else if (character === '{') {
+				index++;
+				result += readSequence('}');
+				index++;
+			} else if (character === '&') {
+				index++;
+				result += ' ';
+			} else {
+				result += character;
+				index++;
+			}
+		}
+		return result;
+	};
+
+	return readSequence().replace(/\s+/g, ' ').trim();
+}
+
+// Replaces the formulas of a text with their Unicode rendering
+export function renderMathText(text: string): string {
+	const { segments } = findMathSegments(text);
+	let result = '';
+	let position = 0;
+	for (const segment of segments) {
+		result += text.slice(position, segment.offset) + texToUnicode(segment.tex);
+		position = segment.offset + segment.length;
+	}
+	return (result + text.slice(position)).replace(/\\\$/g, '$');
+}
+
+function parenthesize(value: string): string {
+	return value.length > 1 && !/^[\p{L}\p{N}.]+$/u.test(value) ? `(${value})` : value;
+}
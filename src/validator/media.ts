@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSONPath } from 'jsonc-parser';
+import { RuleReporter } from './rules';
+
+export type MediaKind = 'image' | 'audio';
+
+// Supported file extensions of media attachments, by kind
+export const MEDIA_EXTENSIONS: Record<MediaKind, string[]> = {
+	image: ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp'],
+	audio: ['.mp3', '.wav', '.ogg', '.m4a']
+};
+
+export interface MediaReference {
+	// Path of the media object in the quiz
+	jsonPath: JSONPath;
+	media: any;
+}
+
+// The kind of a media file, or undefined when its extension is not supported
+export function mediaKind(mediaPath: string): MediaKind | undefined {
+	const extension = path.extname(mediaPath).toLowerCase();
+	return (Object.keys(MEDIA_EXTENSIONS) as MediaKind[]).find(kind => MEDIA_EXTENSIONS[kind].includes(extension));
+}
+
+// Every media attachment of the questions and their options
+export function findMediaReferences(quiz: any): MediaReference[] {
+	const references: MediaReference[] = [];
+	if (!Array.isArray(quiz?.questions)) {
+		return references;
+	}
+	quiz.questions.forEach((question: any, index: number) => {
+		if (question?.media !== undefined) {
+			references.push({ jsonPath: ['questions', index, 'media'], media: question.media });
+		}
+		if (Array.isArray(question?.options)) {
+			question.options.forEach((option: any, optionIndex: number) => {
+				if (option?.media !== undefined) {
+					references.push({ jsonPath: ['questions', index, 'options', optionIndex, 'media'], media: option.media });
+				}
+			});
+		}
+	});
+	return references;
+}
+
+// Helper function to validate media attachments. Paths are resolved against baseDirectory,
+// the folder of the quiz file; the files are not checked when it is unknown.
+export function validateMedia(quiz: any, report: RuleReporter, baseDirectory?: string) {
+	for (const { jsonPath, media } of findMediaReferences(quiz)) {
+		const label = `Question ${(jsonPath[1] as number) + 1}: ${jsonPath.length > 3 ? `Option ${jsonPath[3]}: ` : ''}`;
+		if (!media || typeof media !== 'object' || Array.isArray(media) || typeof media.path !== 'string' || media.path.trim() === '') {
+			report('quiz/media-path', jsonPath, `${label}media must be an object with a path`);
+			continue;
+		}
+
+		const mediaPath: string = media.path;
+		if (path.isAbsolute(mediaPath) || /^[a-z][a-z\d+.-]*:/i.test(mediaPath)) {
+			report('quiz/media-path', [...jsonPath, 'path'], `${label}Media path '${mediaPath}' must be relative to the quiz file`);
+		} else if (baseDirectory !== undefined && !fs.existsSync(path.resolve(baseDirectory, mediaPath))) {
+			report('quiz/media-path', [...jsonPath, 'path'], `${label}Media file '${mediaPath}' does not exist`);
+		}
+		if (!mediaKind(mediaPath)) {
+			const supported = Object.values(MEDIA_EXTENSIONS).flat().join(', ');
+			report('quiz/media-type', [...jsonPath, 'path'], `${label}Unsupported media type '${path.extname(mediaPath) || mediaPath}'. Supported extensions: ${supported}`);
+		}
+		if (typeof media.alt !== 'string' || media.alt.trim() === '') {
+			report('quiz/media-alt', jsonPath, `${label}Media needs alt text describing it for students who cannot see or hear it`);
+		}
+	}
+}
@@ -0,0 +1,15 @@
+import { RuleReporter } from './rules';
+
+// Helper function to validate metadata
+export function validateMetadata(metadata: any, report: RuleReporter) {
+	const requiredFields = ['title', 'description', 'version', 'author'];
+
+	for (const field of requiredFields) {
+		if (!metadata[field]) {
+			report('quiz/metadata-required', ['metadata', field], `Missing required property: metadata.${field}`);
+		} else if (typeof metadata[field] !== 'string') {
+			// Type validation - all fields must be strings
+			report('quiz/metadata-required', ['metadata', field], `metadata.${field} must be a string`);
+		}
+	}
+}
@@ -0,0 +1,22 @@
+import { NumericAnswer } from './types';
+
+export interface NumericRange {
+	min: number;
+	max: number;
+}
+
+// The interval of responses an answer accepts
+export function numericAnswerRange(answer: NumericAnswer): NumericRange {
+	const margin = answer.relative_tolerance !== undefined
+		? Math.abs(answer.value) * answer.relative_tolerance
+		: answer.tolerance ?? 0;
+	return { min: answer.value - margin, max: answer.value + margin };
+}
+
+// Whether a response falls within the range of one of the accepted answers
+export function isAcceptedNumber(answers: NumericAnswer[], response: number): boolean {
+	return Number.isFinite(response) && answers.some(answer => {
+		const range = numericAnswerRange(answer);
+		return response >= range.min && response <= range.max;
+	});
+}
@@ -0,0 +1,18 @@
+// Choice options are plain strings or { "text": ..., "feedback": ... } objects
+
+// The text of an option, or undefined when the option has neither shape
+export function optionText(option: unknown): string | undefined {
+	if (typeof option === 'string') {
+		return option;
+	}
+	return isOptionObject(option) ? option.text : undefined;
+}
+
+// The feedback shown to students who pick an option, if any
+export function optionFeedback(option: unknown): string | undefined {
+	return isOptionObject(option) && typeof option.feedback === 'string' ? option.feedback : undefined;
+}
+
+function isOptionObject(option: unknown): option is { text: string; feedback?: unknown } {
+	return typeof option === 'object' && option !== null && !Array.isArray(option) && typeof (option as { text?: unknown }).text === 'string';
+}
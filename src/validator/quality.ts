@@ -0,0 +1,119 @@
+import { JSONPath } from 'jsonc-parser';
+import { optionText } from './options';
+import { RuleReporter } from './rules';
+
+// Recognised True/False option pairs, compared case-insensitively
+const TRUE_FALSE_PAIRS: [string, string][] = [
+	['true', 'false'],
+	['verdadero', 'falso'],
+	['vrai', 'faux'],
+	['wahr', 'falsch'],
+	['vero', 'falso'],
+	['verdadeiro', 'falso'],
+	['waar', 'onwaar'],
+	['cert', 'fals']
+];
+const ABOVE_OPTION_PATTERN = /^(all|none|both|neither) of the above\.?$|^(todas|ninguna) de las anteriores\.?$|^(toutes|aucune) les? (réponses )?ci-dessus\.?$/i;
+const POSITION_BIAS_MIN_QUESTIONS = 4;
+const POSITION_BIAS_RATIO = 0.7;
+const LONGEST_ANSWER_RATIO = 1.75;
+const LONGEST_ANSWER_MIN_DIFFERENCE = 10;
+
+// Helper function for the pedagogical content-quality rules
+export function validateQuality(quiz: any, report: RuleReporter) {
+	if (!Array.isArray(quiz.questions)) {
+		return;
+	}
+
+	const seenTexts = new Map<string, number>();
+	const singleChoicePositions: number[] = [];
+
+	quiz.questions.forEach((question: any, index: number) => {
+		if (!question || typeof question !== 'object') {
+			return;
+		}
+		const questionPath: JSONPath = ['questions', index];
+		const label = `Question ${index + 1}: `;
+
+		if (typeof question.text === 'string') {
+			const normalizedText = normalizeText(question.text);
+			const firstIndex = seenTexts.get(normalizedText);
+			if (firstIndex !== undefined) {
+				report('quiz/no-duplicate-questions', [...questionPath, 'text'], `${label}Duplicate question text, already used by question ${firstIndex + 1}`);
+			} else {
+				seenTexts.set(normalizedText, index);
+			}
+		}
+
+		if (!Array.isArray(question.options)) {
+			return;
+		}
+		const options: unknown[] = question.options;
+		const texts = options.map(optionText);
+
+		const seenOptions = new Map<string, number>();
+		texts.forEach((option, optionIndex) => {
+			if (option === undefined) {
+				return;
+			}
+			const normalizedOption = normalizeText(option);
+			const firstOption = seenOptions.get(normalizedOption);
+			if (firstOption !== undefined) {
+				report('quiz/no-duplicate-options', [...questionPath, 'options', optionIndex], `${label}Option ${optionIndex} duplicates option ${firstOption}`);
+			} else {
+				seenOptions.set(normalizedOption, optionIndex);
+			}
+			if (ABOVE_OPTION_PATTERN.test(option.trim())) {
+				report('quiz/no-all-none-of-the-above', [...questionPath, 'options', optionIndex], `${label}Avoid "${option.trim()}" options; they reward test-taking strategy over knowledge`);
+			}
+		});
+
+		if (question.type === 'true_false' && texts.length === 2 && texts.every(option => option !== undefined)) {
+			const normalizedPair = (texts as string[]).map(option => normalizeText(option));
+			const isPair = TRUE_FALSE_PAIRS.some(([trueWord, falseWord]) =>
+				(normalizedPair[0] === trueWord && normalizedPair[1] === falseWord) || (normalizedPair[0] === falseWord && normalizedPair[1] === trueWord));
+			if (!isPair) {
+				report('quiz/true-false-pair', [...questionPath, 'options'], `${label}true_false options should be a True/False pair, e.g. ["True", "False"] or ["Verdadero", "Falso"]`);
+			}
+		}
+
+		const answers: unknown[] = Array.isArray(question.correct_answers) ? question.correct_answers : [];
+		const validAnswers = [...new Set(answers)].filter((answer): answer is number =>
+			typeof answer === 'number' && Number.isInteger(answer) && answer >= 0 && answer < options.length);
+
+		if (question.type === 'single_choice' && validAnswers.length === 1) {
+			singleChoicePositions.push(validAnswers[0]);
+		}
+
+		if (question.type === 'multiple_choice' && options.length > 1 && validAnswers.length === options.length) {
+			report('quiz/no-all-correct', [...questionPath, 'correct_answers'], `${label}Every option is marked as correct; add at least one distractor`);
+		}
+
+		if (validAnswers.length === 1 && texts.length > 2 && texts.every(option => option !== undefined)) {
+			const correctLength = (texts[validAnswers[0]] as string).trim().length;
+			const distractorLengths = texts.filter((_, optionIndex) => optionIndex !== validAnswers[0]).map(option => (option as string).trim().length);
+			const averageDistractorLength = distractorLengths.reduce((sum, length) => sum + length, 0) / distractorLengths.length;
+			if (correctLength > Math.max(...distractorLengths) &&
+				correctLength >= averageDistractorLength * LONGEST_ANSWER_RATIO &&
+				correctLength - averageDistractorLength >= LONGEST_ANSWER_MIN_DIFFERENCE) {
+				report('quiz/longest-answer-bias', [...questionPath, 'options', validAnswers[0]], `${label}The correct option is much longer than the distractors, which gives the answer away`);
+			}
+		}
+	});
+
+	if (singleChoicePositions.length >= POSITION_BIAS_MIN_QUESTIONS) {
+		const counts = new Map<number, number>();
+		for (const position of singleChoicePositions) {
+			counts.set(position, (counts.get(position) ?? 0) + 1);
+		}
+		const [position, count] = [...counts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+		if (count / singleChoicePositions.length >= POSITION_BIAS_RATIO) {
+			report('quiz/answer-position-bias', ['questions'], `The correct answer is option ${position} in ${count} of ${singleChoicePositions.length} single_choice questions; vary the answer position`, { preferKey: true });
+		}
+	}
+}
+
+// Case- and whitespace-insensitive form used to compare texts and options
+function normalizeText(value: string): string {
+	return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,384 @@
+import { JSONPath } from 'jsonc-parser';
+import { compileAnswerPattern, findBlankMarkers } from './blanks';
+import { numericAnswerRange } from './numeric';
+import { optionText } from './options';
+import { RuleReporter } from './rules';
+import { DEFAULT_POINTS } from './scoring';
+import { CHOICE_QUESTION_TYPES, QUESTION_TYPES } from './types';
+
+type QuestionReporter = (ruleId: string, property: JSONPath, message: string) => void;
+
+// Helper function to validate questions
+export function validateQuestions(questions: any, report: RuleReporter) {
+	if (!Array.isArray(questions)) {
+		report('quiz/questions-required', ['questions'], 'questions must be an array');
+		return;
+	}
+
+	questions.forEach((question: any, index: number) => {
+		const reportQuestion = (ruleId: string, property: JSONPath, message: string) => {
+			report(ruleId, ['questions', index, ...property], `Question ${index + 1}: ${message}`);
+		};
+
+		// Anything else than an object cannot be checked further
+		if (!question || typeof question !== 'object' || Array.isArray(question)) {
+			report('quiz/question-type', ['questions', index], `Question ${index + 1} must be an object`);
+			return;
+		}
+
+		// Validate question type
+		if (!question.type) {
+			reportQuestion('quiz/question-type', ['type'], 'Missing required property: type');
+		} else if (!QUESTION_TYPES.includes(question.type)) {
+			reportQuestion('quiz/question-type', ['type'], `Invalid question type '${question.type}'. Supported types: ${QUESTION_TYPES.join(', ')}`);
+		}
+
+		// Validate question text
+		if (!question.text) {
+			reportQuestion('quiz/question-text', ['text'], 'Missing required property: text');
+		} else if (typeof question.text !== 'string') {
+			reportQuestion('quiz/question-text', ['text'], 'text must be a string');
+		}
+
+		// Validate type-specific fields
+		if (CHOICE_QUESTION_TYPES.includes(question.type)) {
+			// Validate options (required for all question types)
+			if (!question.options) {
+				reportQuestion('quiz/options-required', ['options'], 'Missing required property: options');
+			} else if (!Array.isArray(question.options)) {
+				reportQuestion('quiz/options-required', ['options'], 'options must be an array');
+			} else {
+				// Type-specific validation for options
+				if (question.type === 'true_false') {
+					if (question.options.length !== 2) {
+						reportQuestion('quiz/true-false-option-count', ['options'], 'true_false questions must have exactly 2 options');
+					}
+				} else if (question.options.length < 2) {
+					reportQuestion('quiz/option-count', ['options'], `${question.type} questions must have at least 2 options`);
+				}
+
+				// Options are strings or { text, feedback } objects, and both shapes can be mixed
+				question.options.forEach((option: unknown, optionIndex: number) => {
+					if (optionText(option) === undefined) {
+						reportQuestion('quiz/options-required', ['options', optionIndex], `Option ${optionIndex} must be a string or an object with a text`);
+					}
+				});
+			}
+
+			// Validate correct_answers (required for all question types)
+			if (!question.correct_answers) {
+				reportQuestion('quiz/correct-answers-required', ['correct_answers'], 'Missing required property: correct_answers');
+			} else if (question.correct_answers === null) {
+				reportQuestion('quiz/correct-answers-required', ['correct_answers'], 'correct_answers cannot be null');
+			} else if (!Array.isArray(question.correct_answers)) {
+				reportQuestion('quiz/correct-answers-required', ['correct_answers'], 'correct_answers must be an array');
+			} else if (question.correct_answers.length === 0) {
+				reportQuestion('quiz/correct-answers-required', ['correct_answers'], 'correct_answers cannot be empty');
+			} else {
+				// Type-specific validation for correct_answers
+				if (question.type === 'single_choice' || question.type === 'true_false') {
+					if (question.correct_answers.length !== 1) {
+						reportQuestion('quiz/answer-count', ['correct_answers'], `${question.type} questions must have exactly one correct answer`);
+					}
+				}
+
+				// Validate correct_answers indices for all types
+				if (question.options && Array.isArray(question.options)) {
+					question.correct_answers.forEach((answerIndex: any, answerPosition: number) => {
+						if (typeof answerIndex !== 'number' || answerIndex < 0 || answerIndex >= question.options.length) {
+							reportQuestion('quiz/answer-index-range', ['correct_answers', answerPosition], `correct_answers contains invalid index ${answerIndex}. Valid range: 0-${question.options.length - 1}`);
+						}
+					});
+
+					// Additional validation for true_false questions
+					if (question.type === 'true_false' && question.correct_answers.length === 1) {
+						const answerIndex = question.correct_answers[0];
+						if (answerIndex !== 0 && answerIndex !== 1) {
+							reportQuestion('quiz/answer-index-range', ['correct_answers', 0], 'true_false questions must have correct_answers index 0 or 1');
+						}
+					}
+				}
+			}
+		} else if (question.type === 'short_answer') {
+			validateShortAnswer(question, reportQuestion);
+		} else if (question.type === 'numeric') {
+			validateNumeric(question, reportQuestion);
+		} else if (question.type === 'matching') {
+			validateMatching(question, reportQuestion);
+		} else if (question.type === 'ordering') {
+			validateOrdering(question, reportQuestion);
+		} else if (question.type === 'essay') {
+			validateEssay(question, reportQuestion);
+		}
+	});
+}
+
+// Every blank needs accepted answers, regex answers must compile and the
+// ___ or {{n}} markers in the text must match the blanks
+function validateShortAnswer(question: any, reportQuestion: QuestionReporter) {
+	if (!question.blanks) {
+		reportQuestion('quiz/blanks-required', ['blanks'], 'Missing required property: blanks');
+		return;
+	}
+	if (!Array.isArray(question.blanks) || question.blanks.length === 0) {
+		reportQuestion('quiz/blanks-required', ['blanks'], 'blanks must be a non-empty array');
+		return;
+	}
+
+	question.blanks.forEach((blank: any, blankIndex: number) => {
+		const answers = blank?.answers;
+		if (!Array.isArray(answers) || answers.length === 0 || !answers.every((answer: unknown) => typeof answer === 'string' && answer !== '')) {
+			reportQuestion('quiz/blanks-required', ['blanks', blankIndex, 'answers'], `Blank ${blankIndex + 1} must have at least one accepted answer`);
+			return;
+		}
+		if (blank.regex === true) {
+			answers.forEach((answer: string, answerIndex: number) => {
+				try {
+					compileAnswerPattern(answer, blank.case_sensitive === true);
+				} catch (error) {
+					// The engine's message already starts with "Invalid regular expression: "
+					const reason = (error instanceof Error ? error.message : String(error)).replace(/^Invalid regular expression: /, '');
+					reportQuestion('quiz/valid-regex', ['blanks', blankIndex, 'answers', answerIndex], `Blank ${blankIndex + 1}: Invalid regular expression: ${reason}`);
+				}
+			});
+		}
+	});
+
+	if (typeof question.text !== 'string') {
+		return;
+	}
+	const markers = findBlankMarkers(question.text);
+	const numberedMarkers = markers.filter(marker => marker.number !== undefined);
+	const blankCount = question.blanks.length;
+	if (numberedMarkers.length > 0 && numberedMarkers.length < markers.length) {
+		reportQuestion('quiz/blank-markers', ['text'], 'Do not mix ___ and {{n}} blank markers in the same text');
+	} else if (numberedMarkers.length > 0) {
+		const numbers = new Set(numberedMarkers.map(marker => marker.number as number));
+		for (const number of numbers) {
+			if (number < 1 || number > blankCount) {
+				reportQuestion('quiz/blank-markers', ['text'], `Blank marker {{${number}}} has no matching blank. Valid markers: {{1}}-{{${blankCount}}}`);
+			}
+		}
+		for (let number = 1; number <= blankCount; number++) {
+			if (!numbers.has(number)) {
+				reportQuestion('quiz/blank-markers', ['blanks', number - 1], `Blank ${number} has no {{${number}}} marker in the text`);
+			}
+		}
+	} else if (markers.length > 0 && markers.length !== blankCount) {
+		reportQuestion('quiz/blank-markers', ['blanks'], `The text has ${markers.length} blank marker(s) but ${blankCount} blank(s) are defined`);
+	} else if (markers.length === 0 && blankCount > 1) {
+		reportQuestion('quiz/blank-markers', ['blanks'], `The text has no blank markers, so only one blank can be defined (found ${blankCount})`);
+	}
+}
+
+// Values and tolerances must be finite and tolerances non-negative; accepted ranges should not overlap
+function validateNumeric(question: any, reportQuestion: QuestionReporter) {
+	if (!question.answers) {
+		reportQuestion('quiz/numeric-answers', ['answers'], 'Missing required property: answers');
+		return;
+	}
+	if (!Array.isArray(question.answers) || question.answers.length === 0) {
+		reportQuestion('quiz/numeric-answers', ['answers'], 'answers must be a non-empty array');
+		return;
+	}
+	if (question.unit !== undefined && (typeof question.unit !== 'string' || question.unit.trim() === '')) {
+		reportQuestion('quiz/numeric-answers', ['unit'], 'unit must be a non-empty string');
+	}
+
+	const ranges: { index: number; min: number; max: number }[] = [];
+	question.answers.forEach((answer: any, answerIndex: number) => {
+		const label = `Answer ${answerIndex + 1}`;
+		if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+			reportQuestion('quiz/numeric-answers', ['answers', answerIndex], `${label} must be an object with a value`);
+			return;
+		}
+		let valid = true;
+		if (typeof answer.value !== 'number' || !Number.isFinite(answer.value)) {
+			reportQuestion('quiz/numeric-answers', ['answers', answerIndex, 'value'], `${label}: value must be a finite number`);
+			valid = false;
+		}
+		for (const property of ['tolerance', 'relative_tolerance']) {
+			const tolerance = answer[property];
+			if (tolerance === undefined) {
+				continue;
+			}
+			if (typeof tolerance !== 'number' || !Number.isFinite(tolerance)) {
+				reportQuestion('quiz/numeric-answers', ['answers', answerIndex, property], `${label}: ${property} must be a finite number`);
+				valid = false;
+			} else if (tolerance < 0) {
+				reportQuestion('quiz/numeric-answers', ['answers', answerIndex, property], `${label}: ${property} cannot be negative`);
+				valid = false;
+			}
+		}
+		if (answer.tolerance !== undefined && answer.relative_tolerance !== undefined) {
+			reportQuestion('quiz/numeric-answers', ['answers', answerIndex], `${label}: Set either tolerance or relative_tolerance, not both`);
+			valid = false;
+		}
+		if (valid) {
+			ranges.push({ index: answerIndex, ...numericAnswerRange(answer) });
+		}
+	});
+
+	// Each range is compared with every earlier one, and reported once on the later answer
+	ranges.forEach((range, position) => {
+		const overlapping = ranges.slice(0, position).find(other => range.min <= other.max && other.min <= range.max);
+		if (overlapping) {
+			reportQuestion('quiz/numeric-range-overlap', ['answers', range.index], `Answer ${range.index + 1} overlaps the accepted range of answer ${overlapping.index + 1}`);
+		}
+	});
+}
+
+// Every left item is paired exactly once and no right item is used twice
+function validateMatching(question: any, reportQuestion: QuestionReporter) {
+	let valid = true;
+	for (const property of ['left', 'right']) {
+		const items = question[property];
+		if (!items) {
+			reportQuestion('quiz/matching-pairs', [property], `Missing required property: ${property}`);
+			valid = false;
+		} else if (!Array.isArray(items) || items.length === 0) {
+			reportQuestion('quiz/matching-pairs', [property], `${property} must be a non-empty array`);
+			valid = false;
+		}
+	}
+	if (!question.pairs) {
+		reportQuestion('quiz/matching-pairs', ['pairs'], 'Missing required property: pairs');
+		return;
+	}
+	if (!Array.isArray(question.pairs)) {
+		reportQuestion('quiz/matching-pairs', ['pairs'], 'pairs must be an array');
+		return;
+	}
+	if (!valid) {
+		return;
+	}
+
+	const pairedLeft = new Set<number>();
+	const pairedRight = new Set<number>();
+	question.pairs.forEach((pair: any, pairIndex: number) => {
+		if (!Array.isArray(pair) || pair.length !== 2) {
+			reportQuestion('quiz/matching-pairs', ['pairs', pairIndex], `Pair ${pairIndex + 1} must be a [left index, right index] array`);
+			return;
+		}
+		const [leftIndex, rightIndex] = pair;
+		if (!isIndex(leftIndex, question.left.length)) {
+			reportQuestion('quiz/matching-pairs', ['pairs', pairIndex, 0], `Pair ${pairIndex + 1} has invalid left index ${leftIndex}. Valid range: 0-${question.left.length - 1}`);
+		} else if (pairedLeft.has(leftIndex)) {
+			reportQuestion('quiz/matching-pairs', ['pairs', pairIndex, 0], `Pair ${pairIndex + 1}: Left item ${leftIndex} is already paired`);
+		} else {
+			pairedLeft.add(leftIndex);
+		}
+		if (!isIndex(rightIndex, question.right.length)) {
+			reportQuestion('quiz/matching-pairs', ['pairs', pairIndex, 1], `Pair ${pairIndex + 1} has invalid right index ${rightIndex}. Valid range: 0-${question.right.length - 1}`);
+		} else if (pairedRight.has(rightIndex)) {
+			reportQuestion('quiz/matching-pairs', ['pairs', pairIndex, 1], `Pair ${pairIndex + 1}: Right item ${rightIndex} is already paired`);
+		} else {
+			pairedRight.add(rightIndex);
+		}
+	});
+
+	question.left.forEach((_item: unknown, leftIndex: number) => {
+		if (!pairedLeft.has(leftIndex)) {
+			reportQuestion('quiz/matching-pairs', ['left', leftIndex], `Left item ${leftIndex} has no pair`);
+		}
+	});
+}
+
+// correct_order must be a permutation of the item indices
+function validateOrdering(question: any, reportQuestion: QuestionReporter) {
+	if (!question.items) {
+		reportQuestion('quiz/ordering-sequence', ['items'], 'Missing required property: items');
+		return;
+	}
+	if (!Array.isArray(question.items) || question.items.length < 2) {
+		reportQuestion('quiz/ordering-sequence', ['items'], 'items must be an array with at least 2 items');
+		return;
+	}
+	if (!question.correct_order) {
+		reportQuestion('quiz/ordering-sequence', ['correct_order'], 'Missing required property: correct_order');
+		return;
+	}
+	if (!Array.isArray(question.correct_order)) {
+		reportQuestion('quiz/ordering-sequence', ['correct_order'], 'correct_order must be an array');
+		return;
+	}
+
+	const itemCount = question.items.length;
+	const seen = new Set<number>();
+	question.correct_order.forEach((itemIndex: any, position: number) => {
+		if (!isIndex(itemIndex, itemCount)) {
+			reportQuestion('quiz/ordering-sequence', ['correct_order', position], `correct_order contains invalid index ${itemIndex}. Valid range: 0-${itemCount - 1}`);
+		} else if (seen.has(itemIndex)) {
+			reportQuestion('quiz/ordering-sequence', ['correct_order', position], `correct_order lists item ${itemIndex} more than once`);
+		} else {
+			seen.add(itemIndex);
+		}
+	});
+
+	const missing = question.items.map((_item: unknown, itemIndex: number) => itemIndex).filter((itemIndex: number) => !seen.has(itemIndex));
+	if (missing.length > 0) {
+		reportQuestion('quiz/ordering-sequence', ['correct_order'], `correct_order must list every item exactly once. Missing: ${missing.join(', ')}`);
+	}
+}
+
+// Criteria are unique, levels ascend by points and the best level of every criterion adds up to points
+function validateEssay(question: any, reportQuestion: QuestionReporter) {
+	if (!question.rubric) {
+		reportQuestion('quiz/rubric-required', ['rubric'], 'Missing required property: rubric');
+		return;
+	}
+	if (!Array.isArray(question.rubric) || question.rubric.length === 0) {
+		reportQuestion('quiz/rubric-required', ['rubric'], 'rubric must be a non-empty array');
+		return;
+	}
+
+	const criteria = new Map<string, number>();
+	let total = 0;
+	let complete = true;
+	question.rubric.forEach((criterion: any, criterionIndex: number) => {
+		const label = `Criterion ${criterionIndex + 1}`;
+		if (typeof criterion?.criterion !== 'string' || criterion.criterion.trim() === '') {
+			reportQuestion('quiz/rubric-required', ['rubric', criterionIndex], `${label} must have a criterion name`);
+		} else {
+			const name = criterion.criterion.trim().toLowerCase();
+			const firstIndex = criteria.get(name);
+			if (firstIndex !== undefined) {
+				reportQuestion('quiz/rubric-unique-criteria', ['rubric', criterionIndex, 'criterion'], `${label} repeats criterion ${firstIndex + 1} "${question.rubric[firstIndex].criterion}"`);
+			} else {
+				criteria.set(name, criterionIndex);
+			}
+		}
+
+		const levels = criterion?.levels;
+		if (!Array.isArray(levels) || levels.length === 0) {
+			reportQuestion('quiz/rubric-required', ['rubric', criterionIndex, 'levels'], `${label} must have at least one level`);
+			complete = false;
+			return;
+		}
+		const invalidLevel = levels.findIndex((level: any) => typeof level?.descriptor !== 'string' || typeof level.points !== 'number' || level.points < 0);
+		if (invalidLevel !== -1) {
+			reportQuestion('quiz/rubric-required', ['rubric', criterionIndex, 'levels', invalidLevel], `${label}: Level ${invalidLevel + 1} needs a descriptor and non-negative points`);
+			complete = false;
+			return;
+		}
+		levels.forEach((level: any, levelIndex: number) => {
+			if (levelIndex > 0 && level.points <= levels[levelIndex - 1].points) {
+				reportQuestion('quiz/rubric-level-order', ['rubric', criterionIndex, 'levels', levelIndex, 'points'], `${label}: Level ${levelIndex + 1} must be worth more than level ${levelIndex} (${levels[levelIndex - 1].points} points)`);
+			}
+		});
+		total += Math.max(...levels.map((level: any) => level.points));
+	});
+
+	if (!complete) {
+		return;
+	}
+	if (typeof question.points === 'number' && total !== question.points) {
+		reportQuestion('quiz/rubric-points', ['points'], `The rubric adds up to ${total} points but the question is worth ${question.points}`);
+	} else if (question.points === undefined && total !== DEFAULT_POINTS) {
+		reportQuestion('quiz/rubric-points', ['rubric'], `The rubric adds up to ${total} points but the question is worth ${DEFAULT_POINTS} without points`);
+	}
+}
+
+function isIndex(value: unknown, length: number): value is number {
+	return Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+}
@@ -0,0 +1,124 @@
+import { parse as parseJson, JSONPath, ParseError } from 'jsonc-parser';
+
+export type RuleSeverity = 'error' | 'warning' | 'info' | 'off';
+
+export interface LintRule {
+	id: string;
+	description: string;
+	defaultSeverity: Exclude<RuleSeverity, 'off'>;
+	// Strict rules are off unless strict mode is enabled
+	strict?: boolean;
+}
+
+export type RuleReporter = (ruleId: string, jsonPath: JSONPath, message: string, options?: { preferKey?: boolean }) => void;
+
+export const LINT_RULES: LintRule[] = [
+	{ id: 'quiz/metadata-required', description: 'metadata and its title, description, version and author must be present strings', defaultSeverity: 'error' },
+	{ id: 'quiz/questions-required', description: 'questions must be present and be an array', defaultSeverity: 'error' },
+	{ id: 'quiz/format-version', description: 'format_version must be a supported format version', defaultSeverity: 'error' },
+	{ id: 'quiz/deprecated-format-version', description: 'Quiz files should not use a deprecated format version', defaultSeverity: 'warning' },
+	{ id: 'quiz/format-version-features', description: 'Features of a newer format version need that format_version', defaultSeverity: 'error' },
+	{ id: 'quiz/question-type', description: 'Every question needs a supported type', defaultSeverity: 'error' },
+	{ id: 'quiz/question-text', description: 'Every question needs a text string', defaultSeverity: 'error' },
+	{ id: 'quiz/options-required', description: 'Choice questions need an options array', defaultSeverity: 'error' },
+	{ id: 'quiz/option-count', description: 'multiple_choice and single_choice questions should have at least 2 options', defaultSeverity: 'warning' },
+	{ id: 'quiz/true-false-option-count', description: 'true_false questions must have exactly 2 options', defaultSeverity: 'error' },
+	{ id: 'quiz/correct-answers-required', description: 'Choice questions need a non-empty correct_answers array', defaultSeverity: 'error' },
+	{ id: 'quiz/answer-count', description: 'single_choice and true_false questions must have exactly one correct answer', defaultSeverity: 'error' },
+	{ id: 'quiz/answer-index-range', description: 'correct_answers indices must point at existing options', defaultSeverity: 'error' },
+	{ id: 'quiz/blanks-required', description: 'short_answer questions need blanks with at least one accepted answer each', defaultSeverity: 'error' },
+	{ id: 'quiz/blank-markers', description: 'The blank markers in a short_answer text must match its blanks', defaultSeverity: 'error' },
+	{ id: 'quiz/valid-regex', description: 'Regular expression answers must compile', defaultSeverity: 'error' },
+	{ id: 'quiz/numeric-answers', description: 'numeric questions need finite answer values with non-negative tolerances', defaultSeverity: 'error' },
+	{ id: 'quiz/numeric-range-overlap', description: 'The accepted ranges of a numeric question should not overlap', defaultSeverity: 'warning' },
+	{ id: 'quiz/matching-pairs', description: 'matching questions need left and right items and exactly one pair per left item', defaultSeverity: 'error' },
+	{ id: 'quiz/ordering-sequence', description: 'The correct_order of an ordering question must list every item index exactly once', defaultSeverity: 'error' },
+	{ id: 'quiz/rubric-required', description: 'essay questions need a rubric of named criteria with scored levels', defaultSeverity: 'error' },
+	{ id: 'quiz/rubric-points', description: 'The rubric of an essay question must add up to its points', defaultSeverity: 'error' },
+	{ id: 'quiz/rubric-level-order', description: 'Rubric levels must be listed in ascending order of points', defaultSeverity: 'error' },
+	{ id: 'quiz/rubric-unique-criteria', description: 'Rubric criteria must be unique within a question', defaultSeverity: 'error' },
+	{ id: 'quiz/scoring-strategy', description: 'Scoring strategies and their parameters must make sense for the question type', defaultSeverity: 'error' },
+	{ id: 'quiz/code-language', description: 'Code blocks should use a known language tag', defaultSeverity: 'warning' },
+	{ id: 'quiz/empty-code', description: 'Code blocks should not be empty', defaultSeverity: 'warning' },
+	{ id: 'quiz/media-path', description: 'Media paths must be relative and point at existing files', defaultSeverity: 'error' },
+	{ id: 'quiz/media-type', description: 'Media files must be a supported image or audio type', defaultSeverity: 'error' },
+	{ id: 'quiz/media-alt', description: 'Media should have alt text', defaultSeverity: 'warning' },
+	{ id: 'quiz/math-delimiters', description: 'Every $ or $$ math delimiter should be closed', defaultSeverity: 'warning' },
+	{ id: 'quiz/math-syntax', description: 'Formulas must be well-formed TeX', defaultSeverity: 'error' },
+	{ id: 'quiz/no-duplicate-options', description: 'Options within a question must be distinct', defaultSeverity: 'warning' },
+	{ id: 'quiz/no-duplicate-questions', description: 'Question texts must be unique within a file', defaultSeverity: 'warning' },
+	{ id: 'quiz/no-all-none-of-the-above', description: 'Avoid "all of the above" and "none of the above" options', defaultSeverity: 'warning' },
+	{ id: 'quiz/true-false-pair', description: 'true_false options should be a True/False pair in a single language', defaultSeverity: 'warning' },
+	{ id: 'quiz/answer-position-bias', description: 'The correct answer of single_choice questions should not sit in the same position most of the time', defaultSeverity: 'warning' },
+	{ id: 'quiz/no-all-correct', description: 'multiple_choice questions should not mark every option as correct', defaultSeverity: 'warning' },
+	{ id: 'quiz/longest-answer-bias', description: 'The correct option should not be much longer than the distractors', defaultSeverity: 'warning' },
+	{ id: 'quiz/require-explanation', description: 'Every question must have an explanation', defaultSeverity: 'error', strict: true },
+	{ id: 'quiz/require-points', description: 'Every question must declare its points', defaultSeverity: 'error', strict: true },
+	{ id: 'quiz/no-unknown-keys', description: 'Only known properties are allowed', defaultSeverity: 'error', strict: true },
+	{ id: 'quiz/semver-version', description: 'metadata.version must follow semantic versioning', defaultSeverity: 'error', strict: true }
+];
+
+export const RULE_DOCS_URL = 'https://github.com/vicajilau/quiz_vs_extension/blob/main/docs/rules.md';
+export const LINT_CONFIG_FILE = '.quizlintrc';
+export const LINT_DISABLE_KEY = '$lint-disable';
+
+const RULE_SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info', 'off'];
+
+export function findLintRule(ruleId: string): LintRule | undefined {
+	return LINT_RULES.find(rule => rule.id === ruleId);
+}
+
+export function isRuleSeverity(value: unknown): value is RuleSeverity {
+	return RULE_SEVERITIES.includes(value as RuleSeverity);
+}
+
+// GitHub heading anchors drop the slash: quiz/option-count -> #quizoption-count
+export function ruleDocumentationUrl(ruleId: string): string {
+	return `${RULE_DOCS_URL}#${ruleId.replace('/', '')}`;
+}
+
+// Resolves the effective severity of every rule: rule defaults (strict rules only
+// when strict mode is on), then each override map in order
+export function resolveRuleSeverities(strictMode: boolean, overrides: Record<string, unknown>[] = []): Map<string, RuleSeverity> {
+	const severities = new Map<string, RuleSeverity>();
+	for (const rule of LINT_RULES) {
+		severities.set(rule.id, rule.strict && !strictMode ? 'off' : rule.defaultSeverity);
+	}
+	for (const override of overrides) {
+		for (const [ruleId, severity] of Object.entries(override)) {
+			if (severities.has(ruleId) && isRuleSeverity(severity)) {
+				severities.set(ruleId, severity);
+			}
+		}
+	}
+	return severities;
+}
+
+// A question can opt out of rules with "$lint-disable": ["rule-id", ...]
+export function isRuleSuppressed(quiz: any, jsonPath: JSONPath, ruleId: string): boolean {
+	if (jsonPath[0] !== 'questions' || typeof jsonPath[1] !== 'number' || !Array.isArray(quiz.questions)) {
+		return false;
+	}
+	const disabledRules = quiz.questions[jsonPath[1]]?.[LINT_DISABLE_KEY];
+	return Array.isArray(disabledRules) && disabledRules.includes(ruleId);
+}
+
+export interface LintConfig {
+	// Undefined when the file is not a valid configuration
+	rules?: Record<string, unknown>;
+	// Human-readable problems found in the configuration; invalid entries are ignored
+	problems: string[];
+}
+
+// Parses the content of a .quizlintrc file: { "rules": { "rule-id": "severity" } }
+export function parseLintConfig(text: string): LintConfig {
+	const parseErrors: ParseError[] = [];
+	const config = parseJson(text, parseErrors);
+	if (parseErrors.length > 0 || !config || typeof config.rules !== 'object' || config.rules === null || Array.isArray(config.rules)) {
+		return { problems: ['expected an object with a "rules" map'] };
+	}
+	const problems = Object.entries(config.rules)
+		.filter(([ruleId, severity]) => !findLintRule(ruleId) || !isRuleSeverity(severity))
+		.map(([ruleId, severity]) => findLintRule(ruleId) ? `invalid severity '${severity}' for ${ruleId}` : `unknown rule ${ruleId}`);
+	return { rules: config.rules, problems };
+}
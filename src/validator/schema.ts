@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { JSONPath } from 'jsonc-parser';
+import { findFormatVersion, findUnsupportedFeatures, getFormatVersion, FORMAT_VERSIONS } from './formatVersion';
+import { instancePathToJsonPath } from './location';
+import { extendSchema, SchemaExtension } from './schemaExtension';
+
+export interface SchemaError {
+	jsonPath: JSONPath;
+	message: string;
+	// Unknown properties are reported on their key rather than their value
+	preferKey: boolean;
+	// The lint rule that checks the same constraint; its severity and $lint-disable apply to the error
+	ruleId?: string;
+}
+
+export type SchemaValidator = (quiz: unknown) => SchemaError[];
+
+// The rules owning the schema constraints of top-level and question properties
+const ROOT_PROPERTY_RULES: Record<string, string> = {
+	format_version: 'quiz/format-version',
+	metadata: 'quiz/metadata-required',
+	questions: 'quiz/questions-required',
+	scoring: 'quiz/scoring-strategy'
+};
+const QUESTION_PROPERTY_RULES: Record<string, string> = {
+	type: 'quiz/question-type',
+	text: 'quiz/question-text',
+	options: 'quiz/options-required',
+	correct_answers: 'quiz/correct-answers-required',
+	blanks: 'quiz/blanks-required',
+	answers: 'quiz/numeric-answers',
+	left: 'quiz/matching-pairs',
+	right: 'quiz/matching-pairs',
+	pairs: 'quiz/matching-pairs',
+	items: 'quiz/ordering-sequence',
+	correct_order: 'quiz/ordering-sequence',
+	rubric: 'quiz/rubric-required',
+	scoring: 'quiz/scoring-strategy'
+};
+
+// Reads the schema of every format version from the schemas directory, keyed by version
+export function readSchemaFiles(schemaDirectory: string): Map<number, object> {
+	const schemas = new Map<number, object>();
+	for (const formatVersion of FORMAT_VERSIONS) {
+		const schemaPath = path.join(schemaDirectory, formatVersion.schemaFile);
+		schemas.set(formatVersion.version, JSON.parse(fs.readFileSync(schemaPath, 'utf8')));
+	}
+	return schemas;
+}
+
+// Compiles the quiz JSON schemas, optionally merged with a workspace schema extension, into a validator
+// returning located errors. Every quiz is checked against the schema of its format version;
+// unsupported versions are not checked.
+export function createSchemaValidator(schemas: Map<number, object>, extension?: SchemaExtension): SchemaValidator {
+	// The logger is off so that unsupported formats such as date-time do not print warnings on every run
+	const ajv = new Ajv({ allErrors: true, strict: false, logger: false });
+	const validators = new Map<number, ValidateFunction>();
+	for (const [version, schema] of schemas) {
+		validators.set(version, ajv.compile(extension ? extendSchema(schema, extension) : schema));
+	}
+	return quiz => {
+		const version = findFormatVersion(getFormatVersion(quiz))?.version;
+		const validate = version === undefined ? undefined : validators.get(version);
+		if (!validate || validate(quiz) || !validate.errors) {
+			return [];
+		}
+		// A failed if/then only repeats the errors of its then branch. Features of a newer format
+		// version are reported by quiz/format-version-features instead of by the errors they cause.
+		const features = findUnsupportedFeatures(quiz);
+		return validate.errors
+			.filter(error => error.keyword !== 'if')
+			.map(error => toSchemaError(error, quiz))
+			.filter(error => !features.some(feature => feature.scope.every((segment, index) => error.jsonPath[index] === segment)));
+	};
+}
+
+function toSchemaError(error: ErrorObject, quiz: unknown): SchemaError {
+	let jsonPath = instancePathToJsonPath(error.instancePath);
+	const message = `${error.instancePath || 'Root'}: ${error.message}`;
+	if (error.keyword === 'additionalProperties' && error.params.additionalProperty) {
+		// No rule checks unknown keys outside strict mode, so they always stay schema errors
+		return { jsonPath: [...jsonPath, error.params.additionalProperty], message, preferKey: true };
+	}
+	if (error.keyword === 'required' && error.params.missingProperty) {
+		jsonPath = [...jsonPath, error.params.missingProperty];
+	}
+	return { jsonPath, message, preferKey: false, ruleId: findSchemaErrorRule(error.keyword, jsonPath, quiz) };
+}
+
+// The lint rule that covers a schema error, by the property it is reported on
+function findSchemaErrorRule(keyword: string, jsonPath: JSONPath, quiz: any): string | undefined {
+	if (jsonPath[0] !== 'questions' || jsonPath.length === 1) {
+		return ROOT_PROPERTY_RULES[jsonPath[0]];
+	}
+	if (jsonPath.length === 2) {
+		// The question itself is not an object
+		return 'quiz/question-type';
+	}
+
+	const property = jsonPath[2];
+	const isItemCount = jsonPath.length === 3 && (keyword === 'minItems' || keyword === 'maxItems');
+	if (property === 'options' && isItemCount) {
+		return quiz?.questions?.[jsonPath[1]]?.type === 'true_false' ? 'quiz/true-false-option-count' : 'quiz/option-count';
+	}
+	if (property === 'correct_answers' && isItemCount && keyword === 'maxItems') {
+		return 'quiz/answer-count';
+	}
+	if (property === 'correct_answers' && jsonPath.length > 3) {
+		return 'quiz/answer-index-range';
+	}
+	return QUESTION_PROPERTY_RULES[property];
+}
@@ -0,0 +1,94 @@
+import { parse as parseJson, ParseError } from 'jsonc-parser';
+
+export const SCHEMA_EXTENSION_FILE = '.quizschema.json';
+
+// JSON Schema keywords an extension may add to metadata or to every question
+export interface SchemaFragment {
+	properties?: Record<string, unknown>;
+	required?: string[];
+}
+
+export interface SchemaExtension {
+	metadata?: SchemaFragment;
+	question?: SchemaFragment;
+}
+
+export interface SchemaExtensionConfig {
+	// Undefined when the file is not a valid schema extension
+	extension?: SchemaExtension;
+	problems: string[];
+}
+
+const EXTENSION_TARGETS: (keyof SchemaExtension)[] = ['metadata', 'question'];
+
+// Parses the content of a .quizschema.json file:
+// { "metadata": { "properties": {...}, "required": [...] }, "question": {...} }
+export function parseSchemaExtension(text: string): SchemaExtensionConfig {
+	const parseErrors: ParseError[] = [];
+	const config = parseJson(text, parseErrors);
+	if (parseErrors.length > 0 || !isObject(config)) {
+		return { problems: ['expected a JSON object'] };
+	}
+
+	const problems: string[] = [];
+	for (const [target, fragment] of Object.entries(config)) {
+		if (!EXTENSION_TARGETS.includes(target as keyof SchemaExtension)) {
+			problems.push(`unknown section "${target}", expected ${EXTENSION_TARGETS.map(name => `"${name}"`).join(' or ')}`);
+		} else if (!isObject(fragment)) {
+			problems.push(`"${target}" must be an object`);
+		} else {
+			if (fragment.properties !== undefined && (!isObject(fragment.properties) || !Object.values(fragment.properties).every(isSubschema))) {
+				problems.push(`"${target}.properties" must map property names to schemas`);
+			}
+			if (fragment.required !== undefined && (!Array.isArray(fragment.required) || !fragment.required.every(item => typeof item === 'string'))) {
+				problems.push(`"${target}.required" must be an array of property names`);
+			}
+		}
+	}
+	return problems.length > 0 ? { problems } : { extension: config, problems };
+}
+
+// Returns a copy of a quiz schema with the extension merged into metadata and into every question
+export function extendSchema(schema: object, extension: SchemaExtension): object {
+	const extended = structuredClone(schema) as any;
+	const metadata = extended.properties?.metadata;
+	if (metadata) {
+		mergeFragment(metadata, extension.metadata);
+	}
+	const question = extended.properties?.questions?.items;
+	if (question) {
+		mergeFragment(question, extension.question);
+		// Every question type restricts its properties again in its own branch
+		for (const branch of question.allOf ?? []) {
+			if (branch.then?.properties) {
+				mergeFragment(branch.then, { properties: extension.question?.properties });
+			}
+		}
+	}
+	return extended;
+}
+
+// The property names an extension adds to metadata or questions
+export function extensionProperties(extension: SchemaExtension | undefined, target: keyof SchemaExtension): string[] {
+	return Object.keys(extension?.[target]?.properties ?? {});
+}
+
+function mergeFragment(schema: any, fragment: SchemaFragment | undefined) {
+	if (!fragment) {
+		return;
+	}
+	if (fragment.properties) {
+		schema.properties = { ...schema.properties, ...fragment.properties };
+	}
+	if (fragment.required) {
+		schema.required = [...new Set([...(schema.required ?? []), ...fragment.required])];
+	}
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSubschema(value: unknown): boolean {
+	return isObject(value) || typeof value === 'boolean';
+}
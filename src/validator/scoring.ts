@@ -0,0 +1,108 @@
+import { JSONPath } from 'jsonc-parser';
+import { RuleReporter } from './rules';
+import { CHOICE_QUESTION_TYPES, ChoiceQuestion, isManuallyGraded, QUESTION_TYPES, Scoring, ScoringStrategy } from './types';
+
+// Questions without points are worth one point, as in the schema
+export const DEFAULT_POINTS = 1;
+
+export const DEFAULT_SCORING: Scoring = { strategy: 'all_or_nothing' };
+
+// The question types each strategy can score. Partial credit needs several correct options.
+export const SCORING_STRATEGY_QUESTION_TYPES: Record<ScoringStrategy, string[]> = {
+	all_or_nothing: QUESTION_TYPES.filter(type => !isManuallyGraded({ type })),
+	proportional: ['multiple_choice'],
+	right_minus_wrong: ['multiple_choice'],
+	negative_marking: CHOICE_QUESTION_TYPES
+};
+
+const SCORING_STRATEGIES = Object.keys(SCORING_STRATEGY_QUESTION_TYPES) as ScoringStrategy[];
+
+// The scoring of a question: its own, else the quiz scoring when its strategy applies to the question type
+export function resolveScoring(question: { type: string; scoring?: Scoring }, quizScoring?: Scoring): Scoring {
+	if (question.scoring) {
+		return question.scoring;
+	}
+	if (quizScoring && SCORING_STRATEGY_QUESTION_TYPES[quizScoring.strategy]?.includes(question.type)) {
+		return quizScoring;
+	}
+	return DEFAULT_SCORING;
+}
+
+// Scores the option indices picked for a choice question, between the scoring floor and the question points
+export function scoreChoiceResponse(question: ChoiceQuestion, selected: number[], quizScoring?: Scoring): number {
+	const points = question.points ?? DEFAULT_POINTS;
+	const scoring = resolveScoring(question, quizScoring);
+	const correct = new Set(question.correct_answers);
+	const picked = new Set(selected);
+	const right = [...picked].filter(index => correct.has(index)).length;
+	const wrong = picked.size - right;
+	const pointsPerOption = points / correct.size;
+
+	switch (scoring.strategy) {
+		case 'proportional':
+			return wrong > 0 ? 0 : right * pointsPerOption;
+		case 'right_minus_wrong':
+			return Math.max(0, (right - wrong) * pointsPerOption);
+		case 'negative_marking':
+			return Math.max(scoring.floor ?? 0, right * pointsPerOption - wrong * (scoring.penalty ?? 0) * points);
+		default:
+			return right === correct.size && wrong === 0 ? points : 0;
+	}
+}
+
+// Helper function to validate the quiz scoring and the scoring of every question
+export function validateScoring(quiz: any, report: RuleReporter) {
+	if (quiz.scoring !== undefined) {
+		validateScoringValue(quiz.scoring, ['scoring'], '', report);
+	}
+	if (!Array.isArray(quiz.questions)) {
+		return;
+	}
+
+	quiz.questions.forEach((question: any, index: number) => {
+		if (question?.scoring === undefined) {
+			return;
+		}
+		const label = `Question ${index + 1}: `;
+		if (isManuallyGraded(question)) {
+			report('quiz/scoring-strategy', ['questions', index, 'scoring'], `${label}${question.type} questions are graded manually and cannot set scoring`);
+			return;
+		}
+		const strategy = validateScoringValue(question.scoring, ['questions', index, 'scoring'], label, report);
+		if (strategy && typeof question.type === 'string' && QUESTION_TYPES.includes(question.type) && !SCORING_STRATEGY_QUESTION_TYPES[strategy].includes(question.type)) {
+			const supported = SCORING_STRATEGY_QUESTION_TYPES[strategy].join(', ');
+			report('quiz/scoring-strategy', ['questions', index, 'scoring', 'strategy'], `${label}${strategy} scoring does not apply to ${question.type} questions. Supported types: ${supported}`);
+		}
+	});
+}
+
+// Reports invalid strategies and parameters, and returns the strategy when it is known
+function validateScoringValue(scoring: any, jsonPath: JSONPath, label: string, report: RuleReporter): ScoringStrategy | undefined {
+	if (!scoring || typeof scoring !== 'object' || Array.isArray(scoring)) {
+		report('quiz/scoring-strategy', jsonPath, `${label}scoring must be an object with a strategy`);
+		return undefined;
+	}
+	const strategy = scoring.strategy;
+	if (!SCORING_STRATEGIES.includes(strategy)) {
+		report('quiz/scoring-strategy', [...jsonPath, 'strategy'], `${label}Invalid scoring strategy ${JSON.stringify(strategy)}. Supported strategies: ${SCORING_STRATEGIES.join(', ')}`);
+		return undefined;
+	}
+
+	if (strategy === 'negative_marking') {
+		if (scoring.penalty === undefined) {
+			report('quiz/scoring-strategy', jsonPath, `${label}negative_marking scoring requires a penalty`);
+		} else if (typeof scoring.penalty !== 'number' || !(scoring.penalty > 0 && scoring.penalty <= 1)) {
+			report('quiz/scoring-strategy', [...jsonPath, 'penalty'], `${label}penalty must be a fraction of the points greater than 0 and at most 1`);
+		}
+		if (scoring.floor !== undefined && (typeof scoring.floor !== 'number' || !(scoring.floor <= 0))) {
+			report('quiz/scoring-strategy', [...jsonPath, 'floor'], `${label}floor must be a number no greater than 0`);
+		}
+	} else {
+		for (const parameter of ['penalty', 'floor']) {
+			if (scoring[parameter] !== undefined) {
+				report('quiz/scoring-strategy', [...jsonPath, parameter], `${label}${parameter} only applies to negative_marking scoring, not ${strategy}`);
+			}
+		}
+	}
+	return strategy;
+}
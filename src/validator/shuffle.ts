@@ -0,0 +1,49 @@
+// Reordering helpers for the option and question refactorings. An order lists, for each new
+// position, the old index of the item that moves there; removed items are left out.
+
+// A deterministic random number generator (mulberry32), so a seed reproduces a shuffle
+export function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let value = state;
+		value = Math.imul(value ^ (value >>> 15), value | 1);
+		value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+		return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+// A random order of length items (Fisher-Yates)
+export function shuffledOrder(length: number, random: () => number = Math.random): number[] {
+	const order = Array.from({ length }, (_, index) => index);
+	for (let index = length - 1; index > 0; index--) {
+		const other = Math.floor(random() * (index + 1));
+		[order[index], order[other]] = [order[other], order[index]];
+	}
+	return order;
+}
+
+// The order that moves one item delta positions, or undefined when it would leave the list
+export function movedOrder(length: number, index: number, delta: number): number[] | undefined {
+	const target = index + delta;
+	if (index < 0 || index >= length || target < 0 || target >= length) {
+		return undefined;
+	}
+	const order = Array.from({ length }, (_, position) => position);
+	order.splice(index, 1);
+	order.splice(target, 0, index);
+	return order;
+}
+
+// Renumbers correct_answers after the options are reordered. Answers pointing to removed options
+// are dropped, and values that are not option indices are kept as they are.
+export function renumberAnswers(answers: unknown[], order: number[], optionCount: number): unknown[] {
+	const renumbered = answers.flatMap(answer => {
+		if (!Number.isInteger(answer) || (answer as number) < 0 || (answer as number) >= optionCount) {
+			return [answer];
+		}
+		const position = order.indexOf(answer as number);
+		return position === -1 ? [] : [position];
+	});
+	return renumbered.every(answer => typeof answer === 'number') ? (renumbered as number[]).sort((a, b) => a - b) : renumbered;
+}
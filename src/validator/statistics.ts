@@ -0,0 +1,52 @@
+import { DEFAULT_POINTS } from './scoring';
+import { isManuallyGraded } from './types';
+
+// Rough time a student needs to answer each question type, in seconds
+export const QUESTION_TIME_ESTIMATES: Record<string, number> = {
+	true_false: 20,
+	single_choice: 45,
+	multiple_choice: 60,
+	short_answer: 60,
+	numeric: 90,
+	matching: 90,
+	ordering: 75,
+	essay: 600
+};
+
+// Reading a code block takes extra time
+const CODE_READING_SECONDS = 30;
+
+export interface QuizStatistics {
+	questionCount: number;
+	totalPoints: number;
+	// Points of questions graded manually, such as essays; included in totalPoints
+	manuallyGradedPoints: number;
+	estimatedMinutes: number;
+	// metadata.time_limit, in minutes
+	timeLimit?: number;
+}
+
+// The estimated time for a question, in seconds
+export function estimateQuestionSeconds(question: any): number {
+	const base = QUESTION_TIME_ESTIMATES[question?.type] ?? QUESTION_TIME_ESTIMATES.single_choice;
+	return base + (question?.code ? CODE_READING_SECONDS : 0);
+}
+
+export function questionPoints(question: any): number {
+	return typeof question?.points === 'number' ? question.points : DEFAULT_POINTS;
+}
+
+// Totals of a quiz, for the CodeLens above metadata
+export function computeQuizStatistics(quiz: any): QuizStatistics {
+	const questions: any[] = Array.isArray(quiz?.questions) ? quiz.questions.filter((question: unknown) => question && typeof question === 'object') : [];
+	const statistics: QuizStatistics = {
+		questionCount: questions.length,
+		totalPoints: questions.reduce((total, question) => total + questionPoints(question), 0),
+		manuallyGradedPoints: questions.filter(isManuallyGraded).reduce((total, question) => total + questionPoints(question), 0),
+		estimatedMinutes: Math.ceil(questions.reduce((total, question) => total + estimateQuestionSeconds(question), 0) / 60)
+	};
+	if (typeof quiz?.metadata?.time_limit === 'number') {
+		statistics.timeLimit = quiz.metadata.time_limit;
+	}
+	return statistics;
+}
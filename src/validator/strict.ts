@@ -0,0 +1,73 @@
+import { JSONPath } from 'jsonc-parser';
+import { FORMAT_VERSION_KEY } from './formatVersion';
+import { LINT_DISABLE_KEY, RuleReporter } from './rules';
+import { extensionProperties, SchemaExtension } from './schemaExtension';
+
+const STRICT_ROOT_KEYS = [FORMAT_VERSION_KEY, 'metadata', 'scoring', 'questions'];
+const STRICT_METADATA_KEYS = ['title', 'description', 'version', 'author', 'created_date', 'modified_date', 'tags', 'difficulty', 'time_limit'];
+const STRICT_BASE_QUESTION_KEYS = ['type', 'text', 'code', 'media', 'explanation', 'points', 'scoring', LINT_DISABLE_KEY];
+const CHOICE_QUESTION_KEYS = ['options', 'correct_answers'];
+// The keys each question type adds to the common ones
+const STRICT_QUESTION_TYPE_KEYS: Record<string, string[]> = {
+	multiple_choice: CHOICE_QUESTION_KEYS,
+	single_choice: CHOICE_QUESTION_KEYS,
+	true_false: CHOICE_QUESTION_KEYS,
+	short_answer: ['blanks'],
+	numeric: ['answers', 'unit'],
+	matching: ['left', 'right', 'pairs'],
+	ordering: ['items', 'correct_order'],
+	essay: ['rubric', 'word_limit', 'model_answer']
+};
+const STRICT_QUESTION_KEYS = [...new Set([...STRICT_BASE_QUESTION_KEYS, ...Object.values(STRICT_QUESTION_TYPE_KEYS).flat()])];
+const SEMVER_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+// Helper function for the strict mode rules: required explanation and points,
+// no unknown keys and a semantic version in metadata.version. Properties declared by
+// a workspace schema extension are known keys.
+export function validateStrict(quiz: any, report: RuleReporter, extension?: SchemaExtension) {
+	const reportUnknownKeys = (value: any, allowedKeys: string[], jsonPath: JSONPath, label: string) => {
+		if (!value || typeof value !== 'object' || Array.isArray(value)) {
+			return;
+		}
+		for (const key of Object.keys(value)) {
+			if (!allowedKeys.includes(key)) {
+				report('quiz/no-unknown-keys', [...jsonPath, key], `${label}Unknown property '${key}' is not allowed in strict mode`, { preferKey: true });
+			}
+		}
+	};
+
+	reportUnknownKeys(quiz, STRICT_ROOT_KEYS, [], '');
+	reportUnknownKeys(quiz.metadata, [...STRICT_METADATA_KEYS, ...extensionProperties(extension, 'metadata')], ['metadata'], 'metadata: ');
+
+	const version = quiz.metadata?.version;
+	if (typeof version === 'string' && !SEMVER_PATTERN.test(version)) {
+		report('quiz/semver-version', ['metadata', 'version'], `metadata.version '${version}' must follow semantic versioning (e.g. 1.0.0)`);
+	}
+
+	if (!Array.isArray(quiz.questions)) {
+		return;
+	}
+	quiz.questions.forEach((question: any, index: number) => {
+		if (!question || typeof question !== 'object') {
+			return;
+		}
+		const questionPath: JSONPath = ['questions', index];
+		const customKeys = extensionProperties(extension, 'question');
+		reportUnknownKeys(question, [...STRICT_QUESTION_KEYS, ...customKeys], questionPath, `Question ${index + 1}: `);
+		// Keys of another question type, such as blanks on a single_choice question
+		const typeKeys = STRICT_QUESTION_TYPE_KEYS[question.type];
+		if (typeKeys) {
+			for (const key of Object.keys(question)) {
+				if (STRICT_QUESTION_KEYS.includes(key) && !STRICT_BASE_QUESTION_KEYS.includes(key) && !typeKeys.includes(key) && !customKeys.includes(key)) {
+					report('quiz/no-unknown-keys', [...questionPath, key], `Question ${index + 1}: Property '${key}' does not apply to ${question.type} questions`, { preferKey: true });
+				}
+			}
+		}
+		if (typeof question.explanation !== 'string' || question.explanation.trim() === '') {
+			report('quiz/require-explanation', [...questionPath, 'explanation'], `Question ${index + 1}: explanation is required in strict mode`);
+		}
+		if (question.points === undefined) {
+			report('quiz/require-points', [...questionPath, 'points'], `Question ${index + 1}: points is required in strict mode`);
+		}
+	});
+}
@@ -0,0 +1,195 @@
+import { JSONPath } from 'jsonc-parser';
+
+export interface QuizMetadata {
+	title: string;
+	description: string;
+	version: string;
+	author: string;
+}
+
+export type ScoringStrategy = 'all_or_nothing' | 'proportional' | 'right_minus_wrong' | 'negative_marking';
+
+export interface Scoring {
+	strategy: ScoringStrategy;
+	// negative_marking only: fraction of the points deducted per wrong option
+	penalty?: number;
+	// negative_marking only: lowest possible score, at most 0
+	floor?: number;
+}
+
+export interface CodeBlock {
+	// One of CODE_LANGUAGES
+	language: string;
+	source: string;
+}
+
+export interface MediaAttachment {
+	// Relative to the quiz file
+	path: string;
+	alt: string;
+}
+
+export interface BaseQuestion {
+	type: string;
+	text: string;
+	code?: CodeBlock;
+	media?: MediaAttachment;
+	explanation?: string;
+	points?: number;
+	// Overrides the quiz scoring
+	scoring?: Scoring;
+}
+
+export interface OptionWithFeedback {
+	text: string;
+	code?: CodeBlock;
+	media?: MediaAttachment;
+	// Shown to students who pick this option
+	feedback?: string;
+}
+
+export type ChoiceOption = string | OptionWithFeedback;
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+	type: 'multiple_choice';
+	options: ChoiceOption[];
+	correct_answers: number[];
+}
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+	type: 'single_choice';
+	options: ChoiceOption[];
+	correct_answers: number[];
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+	type: 'true_false';
+	options: ChoiceOption[];
+	correct_answers: number[];
+}
+
+export type ChoiceQuestion = MultipleChoiceQuestion | SingleChoiceQuestion | TrueFalseQuestion;
+
+export interface Blank {
+	// Accepted answers, or regular expressions when regex is set
+	answers: string[];
+	case_sensitive?: boolean;
+	trim_whitespace?: boolean;
+	regex?: boolean;
+}
+
+export interface ShortAnswerQuestion extends BaseQuestion {
+	type: 'short_answer';
+	// One entry per ___ or {{n}} marker in the text, or a single entry when the text has no markers
+	blanks: Blank[];
+}
+
+export interface NumericAnswer {
+	value: number;
+	// Absolute tolerance, or relative_tolerance as a fraction of the value; not both
+	tolerance?: number;
+	relative_tolerance?: number;
+}
+
+export interface NumericQuestion extends BaseQuestion {
+	type: 'numeric';
+	answers: NumericAnswer[];
+	unit?: string;
+}
+
+export interface MatchingQuestion extends BaseQuestion {
+	type: 'matching';
+	left: string[];
+	// Right items without a pair are distractors
+	right: string[];
+	// [left index, right index], one pair per left item
+	pairs: [number, number][];
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+	type: 'ordering';
+	items: string[];
+	// Item indices in their correct order
+	correct_order: number[];
+}
+
+export interface RubricLevel {
+	descriptor: string;
+	points: number;
+}
+
+export interface RubricCriterion {
+	criterion: string;
+	// Ascending by points
+	levels: RubricLevel[];
+}
+
+export interface EssayQuestion extends BaseQuestion {
+	type: 'essay';
+	// The highest level of every criterion adds up to the question points
+	rubric: RubricCriterion[];
+	word_limit?: number;
+	model_answer?: string;
+}
+
+export type Question =
+	| MultipleChoiceQuestion
+	| SingleChoiceQuestion
+	| TrueFalseQuestion
+	| ShortAnswerQuestion
+	| NumericQuestion
+	| MatchingQuestion
+	| OrderingQuestion
+	| EssayQuestion;
+
+export interface QuizFile {
+	format_version?: number;
+	metadata: QuizMetadata;
+	// Default scoring for the questions its strategy applies to
+	scoring?: Scoring;
+	questions: Question[];
+}
+
+// A change to a quiz file, applied to its text by the editor so that formatting is kept
+export interface QuizModification {
+	path: JSONPath;
+	value: unknown;
+	// New properties are appended to their object unless insertFirst is set
+	insertFirst?: boolean;
+}
+
+export const QUESTION_TYPES: string[] = ['multiple_choice', 'single_choice', 'true_false', 'short_answer', 'numeric', 'matching', 'ordering', 'essay'];
+
+// Question types answered by picking options through their indices
+export const CHOICE_QUESTION_TYPES: string[] = ['multiple_choice', 'single_choice', 'true_false'];
+
+// Question types scored by a grader instead of against correct answers
+export const MANUALLY_GRADED_QUESTION_TYPES: string[] = ['essay'];
+
+export function isManuallyGraded(question: { type?: unknown }): boolean {
+	return MANUALLY_GRADED_QUESTION_TYPES.includes(question.type as string);
+}
+
+export type ProblemSeverity = 'error' | 'warning' | 'info';
+
+export interface Position {
+	// Zero-based line and character, as in the VS Code API
+	line: number;
+	character: number;
+}
+
+export interface Range {
+	start: Position;
+	end: Position;
+}
+
+export interface QuizProblem {
+	message: string;
+	severity: ProblemSeverity;
+	source: 'quiz-validator' | 'quiz-schema';
+	// Set for lint rule problems; JSON syntax and schema problems have no rule
+	ruleId?: string;
+	range: Range;
+	offset: number;
+	length: number;
+}
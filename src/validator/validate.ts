@@ -0,0 +1,123 @@
+import { getNodeValue, parseTree, JSONPath, ParseError } from 'jsonc-parser';
+import { validateCodeBlocks } from './code';
+import { validateFormatVersion } from './formatVersion';
+import { createPositionAt, describeParseError, isPathWithin, locationForPath, offsetLocation, Location } from './location';
+import { validateMath } from './math';
+import { validateMedia } from './media';
+import { validateMetadata } from './metadata';
+import { validateQuality } from './quality';
+import { validateQuestions } from './questions';
+import { isRuleSuppressed, resolveRuleSeverities, RuleReporter } from './rules';
+import { SchemaValidator } from './schema';
+import { validateScoring } from './scoring';
+import { SchemaExtension } from './schemaExtension';
+import { validateStrict } from './strict';
+import { QuizProblem } from './types';
+
+export interface ValidationOptions {
+	// Enables the strict rules
+	strictMode?: boolean;
+	// Rule severity overrides, applied in order so later maps win
+	ruleOverrides?: Record<string, unknown>[];
+	// Schema validation is skipped when no schema validator is given
+	schema?: SchemaValidator;
+	// Workspace schema extension the schema validator was built with
+	schemaExtension?: SchemaExtension;
+	// Folder of the quiz file; media files are only checked for existence when it is given
+	mediaBaseDirectory?: string;
+}
+
+// Runs every check on the text of a quiz file and returns the problems found
+export function validateQuiz(text: string, options: ValidationOptions = {}): QuizProblem[] {
+	const problems: QuizProblem[] = [];
+	const positionAt = createPositionAt(text);
+	const addProblem = (location: Location, message: string, source: QuizProblem['source'] = 'quiz-validator', ruleId?: string, severity: QuizProblem['severity'] = 'error') => {
+		problems.push({ message, severity, source, ruleId, ...location });
+	};
+
+	const parseErrors: ParseError[] = [];
+	const root = parseTree(text, parseErrors, { disallowComments: true, allowTrailingComma: false });
+
+	if (parseErrors.length > 0 || !root) {
+		// JSON parsing errors, reported where the parser stopped
+		for (const parseError of parseErrors) {
+			addProblem(offsetLocation(positionAt, parseError.offset, parseError.length), `Invalid JSON: ${describeParseError(parseError)}`);
+		}
+		if (parseErrors.length === 0) {
+			addProblem(offsetLocation(positionAt, 0, 0), 'Invalid JSON: Document is empty');
+		}
+		return problems;
+	}
+
+	const quiz: any = getNodeValue(root); // Use any to allow flexible validation
+	if (root.type !== 'object') {
+		addProblem(locationForPath(positionAt, root, []), 'Quiz file must contain a JSON object');
+		return problems;
+	}
+
+	const severities = resolveRuleSeverities(options.strictMode ?? false, options.ruleOverrides);
+	// Where the rules reported problems, so that schema errors do not repeat them
+	const reported: { ruleId: string; jsonPath: JSONPath }[] = [];
+	const report: RuleReporter = (ruleId, jsonPath, message, reportOptions = {}) => {
+		const severity = severities.get(ruleId);
+		if (!severity || severity === 'off' || isRuleSuppressed(quiz, jsonPath, ruleId)) {
+			return;
+		}
+		addProblem(locationForPath(positionAt, root, jsonPath, reportOptions.preferKey), message, 'quiz-validator', ruleId, severity);
+		reported.push({ ruleId, jsonPath });
+	};
+
+	// Format version validation
+	validateFormatVersion(quiz, report);
+
+	// Basic structure validation
+	if (!quiz.metadata) {
+		report('quiz/metadata-required', ['metadata'], 'Missing required property: metadata');
+	} else {
+		// Validate metadata fields
+		validateMetadata(quiz.metadata, report);
+	}
+
+	if (!quiz.questions) {
+		report('quiz/questions-required', ['questions'], 'Missing required property: questions');
+	} else {
+		// Validate questions array
+		validateQuestions(quiz.questions, report);
+	}
+
+	// Scoring strategies of the quiz and its questions
+	validateScoring(quiz, report);
+
+	// Language tags and content of code blocks
+	validateCodeBlocks(quiz, report);
+
+	// Media paths, types and alt text
+	validateMedia(quiz, report, options.mediaBaseDirectory);
+
+	// $...$ and $$...$$ formulas in texts, options and explanations
+	validateMath(quiz, report);
+
+	// Validate against JSON schema if available. The rules above check the same structure, so an error
+	// is dropped when a rule reported a problem at its path, or its own rule did inside it.
+	for (const error of options.schema?.(quiz) ?? []) {
+		const isReported = reported.some(problem => isPathWithin(problem.jsonPath, error.jsonPath) &&
+			(problem.ruleId === error.ruleId || problem.jsonPath.length === error.jsonPath.length));
+		if (isReported) {
+			continue;
+		}
+		// Errors covered by a rule follow its severity and suppressions
+		const severity = error.ruleId ? severities.get(error.ruleId) : 'error';
+		if (!severity || severity === 'off' || (error.ruleId && isRuleSuppressed(quiz, error.jsonPath, error.ruleId))) {
+			continue;
+		}
+		addProblem(locationForPath(positionAt, root, error.jsonPath, error.preferKey), error.message, 'quiz-schema', undefined, severity);
+	}
+
+	// Content-quality rules for questions and distractors
+	validateQuality(quiz, report);
+
+	// Rules that are only enabled by strict mode
+	validateStrict(quiz, report, options.schemaExtension);
+
+	return problems;
+}
@@ -1,6 +1,9 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { QuizCompletionProvider } from '../src/completion';
+import { deleteOption, isOnlyCorrectOption, moveOption, moveQuestion, shuffleOptions } from '../src/refactorings';
+import { readSchemaFiles, seededRandom, LATEST_FORMAT_VERSION, QUESTION_TYPES } from '../src/validator';
 
 suite('QUIZ Extension Test Suite', () => {
     vscode.window.showInformationMessage('Starting QUIZ extension tests.');
@@ -71,6 +74,42 @@ suite('QUIZ Extension Test Suite', () => {
         });
     });
 
+    suite('Quiz Syntax Highlighting', () => {
+        // A token of the built-in tokenizer: its text and its scopes, separated by spaces
+        interface SyntaxToken {
+            c: string;
+            t: string;
+        }
+
+        test('Should end embedded comments at the end of the code line and embed code in either key order', async () => {
+            const content = [
+                '{',
+                '  "format_version": 2,',
+                '  "metadata": { "title": "Highlighting Quiz", "description": "Quiz used to exercise highlighting", "version": "1.0.0", "author": "Test Author" },',
+                '  "questions": [',
+                '    {',
+                '      "type": "single_choice",',
+                '      "text": "What does this print?",',
+                '      "code": { "language": "python", "source": "x = 1  # one\\nprint(x)" },',
+                '      "options": [{ "text": "1", "code": { "source": "// two\\nconsole.log(2)", "language": "javascript" } }, "2"],',
+                '      "correct_answers": [0]',
+                '    }',
+                '  ]',
+                '}'
+            ].join('\n');
+            const document = await createTestDocument(content, 'highlighting.quiz');
+            await document.save();
+            const tokens = await vscode.commands.executeCommand<SyntaxToken[]>('_workbench.captureSyntaxTokens', document.uri) ?? [];
+            const scopesOf = (text: string) => tokens.find(token => token.c === text)?.t ?? '';
+
+            const comments = tokens.filter(token => token.t.includes('comment'));
+            assert.strictEqual(comments.map(token => token.c).join('').trim(), '# one// two');
+            assert.ok(scopesOf('print').includes('meta.embedded.block.python'), 'Code after a comment should stay embedded');
+            assert.ok(scopesOf('console').includes('meta.embedded.block.javascript'), 'A source before its language should be embedded');
+            assert.ok(scopesOf('correct_answers').includes('support.type.property-name.json'), 'Keys after a code block should be highlighted as JSON');
+        });
+    });
+
     suite('Quiz File Validation - Valid Files', () => {
         test('Should not show errors for valid quiz file', async () => {
             const validQuiz = {
@@ -311,6 +350,609 @@ suite('QUIZ Extension Test Suite', () => {
         });
     });
 
+    suite('Quiz File Validation - Diagnostic Ranges', () => {
+        test('Should underline the invalid correct_answers index', async () => {
+            const invalidQuiz = {
+                metadata: {
+                    title: "Range Quiz",
+                    description: "Quiz with an out-of-range answer",
+                    version: "1.0",
+                    author: "Test Author"
+                },
+                questions: [
+                    {
+                        type: "multiple_choice",
+                        text: "First question",
+                        options: ["A", "B"],
+                        correct_answers: [0]
+                    },
+                    {
+                        type: "multiple_choice",
+                        text: "Second question",
+                        options: ["A", "B", "C"],
+                        correct_answers: [0, 5]
+                    }
+                ]
+            };
+
+            const document = await createTestDocument(JSON.stringify(invalidQuiz, null, 2), 'range-index.quiz');
+            const diagnostics = await getDiagnostics(document);
+
+            const indexError = diagnostics.find(d => d.message.includes('Question 2: correct_answers contains invalid index 5'));
+            assert.ok(indexError, 'Should have error about invalid index 5 in question 2');
+            assert.strictEqual(document.getText(indexError.range), '5');
+        });
+
+        test('Should point missing metadata fields at the metadata key', async () => {
+            const invalidQuiz = {
+                metadata: {
+                    description: "A test quiz",
+                    version: "1.0",
+                    author: "Test Author"
+                },
+                questions: [
+                    {
+                        type: "multiple_choice",
+                        text: "Test question",
+                        options: ["A", "B"],
+                        correct_answers: [0]
+                    }
+                ]
+            };
+
+            const document = await createTestDocument(JSON.stringify(invalidQuiz, null, 2), 'range-metadata.quiz');
+            const diagnostics = await getDiagnostics(document);
+
+            const titleError = diagnostics.find(d => d.message.includes('metadata.title'));
+            assert.ok(titleError, 'Should have error mentioning metadata.title');
+            assert.strictEqual(document.getText(titleError.range), '"metadata"');
+        });
+
+        test('Should point schema errors at the offending property', async () => {
+            const invalidQuiz = {
+                metadata: {
+                    title: "Test Quiz",
+                    description: "A test quiz",
+                    version: "1.0",
+                    author: "Test Author",
+                    course_code: "CS101"
+                },
+                questions: [
+                    {
+                        type: "multiple_choice",
+                        text: "Test question",
+                        options: ["A", "B"],
+                        correct_answers: [0]
+                    }
+                ]
+            };
+
+            const document = await createTestDocument(JSON.stringify(invalidQuiz, null, 2), 'range-schema.quiz');
+            const diagnostics = await getDiagnostics(document);
+
+            const schemaError = diagnostics.find(d => d.source === 'quiz-schema');
+            assert.ok(schemaError, 'Should have a schema error for the unknown metadata property');
+            assert.strictEqual(document.getText(schemaError.range), '"course_code"');
+        });
+
+        test('Should report JSON syntax errors at their line and column', async () => {
+            const invalidJson = [
+                '{',
+                '  "metadata": {',
+                '    "title": "Test Quiz",',
+                '    "description": "Invalid JSON" broken',
+                '  }',
+                '}'
+            ].join('\n');
+
+            const document = await createTestDocument(invalidJson, 'range-json.quiz');
+            const diagnostics = await getDiagnostics(document);
+
+            const jsonError = diagnostics.find(d => d.message.includes('Invalid JSON'));
+            assert.ok(jsonError, 'Should have error about invalid JSON');
+            assert.strictEqual(jsonError.range.start.line, 3);
+            assert.strictEqual(document.getText(jsonError.range), 'broken');
+        });
+    });
+
+    suite('Quiz Validation Settings', () => {
+        const baseQuiz = {
+            metadata: {
+                title: "Settings Quiz",
+                description: "Quiz used to exercise validation settings",
+                version: "1.0",
+                author: "Test Author"
+            },
+            questions: [
+                {
+                    type: "multiple_choice",
+                    text: "Test question",
+                    options: ["A"],
+                    correct_answers: [0]
+                }
+            ]
+        };
+
+        async function updateSetting(key: string, value: boolean | undefined) {
+            await vscode.workspace.getConfiguration('quiz.validation').update(key, value, vscode.ConfigurationTarget.Global);
+        }
+
+        test('Should clear diagnostics when validation is disabled', async () => {
+            const document = await createTestDocument(JSON.stringify({ questions: [] }, null, 2), 'settings-disabled.quiz');
+            assert.ok((await getDiagnostics(document)).length > 0, 'Should have diagnostics while validation is enabled');
+
+            try {
+                await updateSetting('enabled', false);
+                const diagnostics = await getDiagnostics(document);
+                assert.strictEqual(diagnostics.length, 0, 'Should have no diagnostics while validation is disabled');
+            } finally {
+                await updateSetting('enabled', undefined);
+            }
+        });
+
+        test('Should hide warnings when showWarnings is false', async () => {
+            const document = await createTestDocument(JSON.stringify(baseQuiz, null, 2), 'settings-warnings.quiz');
+            const warningsBefore = (await getDiagnostics(document)).filter(d => d.severity === vscode.DiagnosticSeverity.Warning);
+            assert.ok(warningsBefore.length > 0, 'Should have warnings by default');
+
+            try {
+                await updateSetting('showWarnings', false);
+                const warnings = (await getDiagnostics(document)).filter(d => d.severity === vscode.DiagnosticSeverity.Warning);
+                assert.strictEqual(warnings.length, 0, 'Should not show warnings when showWarnings is false');
+            } finally {
+                await updateSetting('showWarnings', undefined);
+            }
+        });
+
+        test('Should apply stricter checks in strict mode', async () => {
+            const document = await createTestDocument(JSON.stringify(baseQuiz, null, 2), 'settings-strict.quiz');
+            const messagesBefore = (await getDiagnostics(document)).map(d => d.message);
+            assert.ok(!messagesBefore.some(m => m.includes('strict mode')), 'Should not apply strict checks by default');
+
+            try {
+                await updateSetting('strictMode', true);
+                const messages = (await getDiagnostics(document)).map(d => d.message);
+                assert.ok(messages.some(m => m.includes('explanation is required')), 'Should require explanation');
+                assert.ok(messages.some(m => m.includes('points is required')), 'Should require points');
+                assert.ok(messages.some(m => m.includes('semantic versioning')), 'Should require a semver version');
+            } finally {
+                await updateSetting('strictMode', undefined);
+            }
+        });
+    });
+
+    suite('Quiz Lint Rules', () => {
+        const fewOptionsQuiz = (extra: Record<string, unknown> = {}) => ({
+            metadata: {
+                title: "Lint Quiz",
+                description: "Quiz used to exercise lint rules",
+                version: "1.0",
+                author: "Test Author"
+            },
+            questions: [
+                {
+                    type: "multiple_choice",
+                    text: "Test question",
+                    options: ["A"],
+                    correct_answers: [0],
+                    ...extra
+                }
+            ]
+        });
+
+        function ruleId(diagnostic: vscode.Diagnostic): string | number | undefined {
+            return typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+        }
+
+        // The range of the options array, where quiz/option-count and the schema's minItems are reported
+        function optionsValueRange(document: vscode.TextDocument): vscode.Range {
+            const start = document.getText().indexOf('[', document.getText().indexOf('"options"'));
+            const end = document.getText().indexOf(']', start) + 1;
+            return new vscode.Range(document.positionAt(start), document.positionAt(end));
+        }
+
+        test('Should tag diagnostics with their rule ID and documentation link', async () => {
+            const document = await createTestDocument(JSON.stringify(fewOptionsQuiz(), null, 2), 'lint-code.quiz');
+            const diagnostics = await getDiagnostics(document);
+
+            const optionCount = diagnostics.find(d => ruleId(d) === 'quiz/option-count');
+            assert.ok(optionCount, 'Should report quiz/option-count');
+            assert.ok(typeof optionCount.code === 'object' && optionCount.code.target.toString().includes('rules.md'), 'Should link to the rule documentation');
+        });
+
+        test('Should suppress rules listed in $lint-disable', async () => {
+            const quiz = fewOptionsQuiz({ '$lint-disable': ['quiz/option-count'] });
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'lint-disable.quiz');
+            const diagnostics = await getDiagnostics(document);
+
+            assert.ok(!diagnostics.some(d => ruleId(d) === 'quiz/option-count'), 'Should not report a suppressed rule');
+            assert.ok(!diagnostics.some(d => d.message.includes('additional properties')), 'Should accept $lint-disable in the schema');
+            const optionsRange = optionsValueRange(document);
+            assert.ok(!diagnostics.some(d => d.range.isEqual(optionsRange)), 'Should not report the matching schema error either');
+        });
+
+        test('Should apply severity overrides from quiz.lint.rules', async () => {
+            const document = await createTestDocument(JSON.stringify(fewOptionsQuiz(), null, 2), 'lint-override.quiz');
+            const config = vscode.workspace.getConfiguration('quiz.lint');
+
+            try {
+                await config.update('rules', { 'quiz/option-count': 'error' }, vscode.ConfigurationTarget.Global);
+                const diagnostics = await getDiagnostics(document);
+                const optionCount = diagnostics.find(d => ruleId(d) === 'quiz/option-count');
+                assert.strictEqual(optionCount?.severity, vscode.DiagnosticSeverity.Error);
+
+                await config.update('rules', { 'quiz/option-count': 'info' }, vscode.ConfigurationTarget.Global);
+                const downgraded = await getDiagnostics(document);
+                const optionsRange = optionsValueRange(document);
+                assert.ok(downgraded.filter(d => d.range.isEqual(optionsRange)).every(d => d.severity === vscode.DiagnosticSeverity.Information),
+                    'Should downgrade the matching schema error too');
+
+                await config.update('rules', { 'quiz/option-count': 'off' }, vscode.ConfigurationTarget.Global);
+                const silenced = await getDiagnostics(document);
+                assert.ok(!silenced.some(d => ruleId(d) === 'quiz/option-count'), 'Should not report a rule that is off');
+                assert.ok(!silenced.some(d => d.range.isEqual(optionsRange)), 'Should not report the matching schema error either');
+            } finally {
+                await config.update('rules', undefined, vscode.ConfigurationTarget.Global);
+            }
+        });
+    });
+
+    suite('Quiz Content-Quality Rules', () => {
+        const metadata = {
+            title: "Quality Quiz",
+            description: "Quiz used to exercise content-quality rules",
+            version: "1.0",
+            author: "Test Author"
+        };
+
+        async function getWarningMessages(questions: unknown[], fileName: string): Promise<string[]> {
+            const document = await createTestDocument(JSON.stringify({ metadata, questions }, null, 2), fileName);
+            const diagnostics = await getDiagnostics(document);
+            return diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Warning).map(d => d.message);
+        }
+
+        test('Should warn about duplicate options and question texts', async () => {
+            const messages = await getWarningMessages([
+                { type: "single_choice", text: "Pick one", options: ["Paris", "Rome", " paris "], correct_answers: [0] },
+                { type: "single_choice", text: "pick ONE", options: ["Paris", "Rome"], correct_answers: [1] }
+            ], 'quality-duplicates.quiz');
+
+            assert.ok(messages.some(m => m.includes('Question 1: Option 2 duplicates option 0')), 'Should warn about the duplicate option');
+            assert.ok(messages.some(m => m.includes('Question 2: Duplicate question text')), 'Should warn about the duplicate question');
+        });
+
+        test('Should warn about "all of the above" options and mismatched true_false pairs', async () => {
+            const messages = await getWarningMessages([
+                { type: "multiple_choice", text: "Which are fruits?", options: ["Apple", "Pear", "All of the above"], correct_answers: [2] },
+                { type: "true_false", text: "The sky is blue.", options: ["True", "Falso"], correct_answers: [0] },
+                { type: "true_false", text: "Water is dry.", options: ["Verdadero", "Falso"], correct_answers: [1] }
+            ], 'quality-options.quiz');
+
+            assert.ok(messages.some(m => m.includes('All of the above')), 'Should warn about "All of the above"');
+            assert.ok(messages.some(m => m.includes('Question 2: true_false options should be a True/False pair')), 'Should warn about a mixed-language pair');
+            assert.ok(!messages.some(m => m.includes('Question 3: true_false options')), 'Should accept a Spanish pair');
+        });
+
+        test('Should warn about answer position bias and all-correct questions', async () => {
+            const singleChoice = (text: string) => ({ type: "single_choice", text, options: ["A", "B", "C"], correct_answers: [1] });
+            const messages = await getWarningMessages([
+                singleChoice("First"),
+                singleChoice("Second"),
+                singleChoice("Third"),
+                singleChoice("Fourth"),
+                { type: "multiple_choice", text: "Select all", options: ["A", "B"], correct_answers: [0, 1] }
+            ], 'quality-bias.quiz');
+
+            assert.ok(messages.some(m => m.includes('The correct answer is option 1 in 4 of 4 single_choice questions')), 'Should warn about position bias');
+            assert.ok(messages.some(m => m.includes('Question 5: Every option is marked as correct')), 'Should warn about all-correct questions');
+        });
+
+        test('Should warn when the correct option is much longer than the distractors', async () => {
+            const messages = await getWarningMessages([
+                {
+                    type: "single_choice",
+                    text: "What does HTTP stand for?",
+                    options: ["Hyper", "Hot", "HyperText Transfer Protocol, the web's protocol", "Home"],
+                    correct_answers: [2]
+                }
+            ], 'quality-length.quiz');
+
+            assert.ok(messages.some(m => m.includes('much longer than the distractors')), 'Should warn about the long correct option');
+        });
+    });
+
+    suite('Quiz Quick Fixes', () => {
+        const metadata = {
+            title: "Fix Quiz",
+            description: "Quiz used to exercise quick fixes",
+            version: "1.0",
+            author: "Test Author"
+        };
+
+        async function getCodeActions(document: vscode.TextDocument, range: vscode.Range, kind?: vscode.CodeActionKind): Promise<vscode.CodeAction[]> {
+            await getDiagnostics(document);
+            return await vscode.commands.executeCommand<vscode.CodeAction[]>('vscode.executeCodeActionProvider', document.uri, range, kind?.value) ?? [];
+        }
+
+        async function applyCodeAction(action: vscode.CodeAction | undefined) {
+            assert.ok(action?.edit, 'Should provide an edit');
+            assert.ok(await vscode.workspace.applyEdit(action.edit));
+        }
+
+        test('Should remove or clamp an out-of-range correct_answers index', async () => {
+            const quiz = { metadata, questions: [{ type: "multiple_choice", text: "Pick", options: ["A", "B", "C"], correct_answers: [0, 5] }] };
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'fix-index.quiz');
+            const diagnostic = (await getDiagnostics(document)).find(d => d.message.includes('invalid index 5'));
+            assert.ok(diagnostic, 'Should report the invalid index');
+
+            const actions = await getCodeActions(document, diagnostic.range);
+            assert.ok(actions.some(a => a.title.startsWith('Clamp index 5')), 'Should offer to clamp the index');
+            await applyCodeAction(actions.find(a => a.title.startsWith('Remove invalid index 5')));
+
+            assert.deepStrictEqual(JSON.parse(document.getText()).questions[0].correct_answers, [0]);
+        });
+
+        test('Should replace a misspelled type with the nearest valid type', async () => {
+            const quiz = { metadata, questions: [{ type: "single_choise", text: "Pick", options: ["A", "B"], correct_answers: [0] }] };
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'fix-type.quiz');
+            const diagnostic = (await getDiagnostics(document)).find(d => d.message.includes("Invalid question type 'single_choise'"));
+            assert.ok(diagnostic, 'Should report the invalid type');
+
+            const actions = await getCodeActions(document, diagnostic.range);
+            await applyCodeAction(actions.find(a => a.title === "Change type to 'single_choice'"));
+
+            assert.strictEqual(JSON.parse(document.getText()).questions[0].type, 'single_choice');
+        });
+
+        test('Should fix all auto-fixable problems at once', async () => {
+            const quiz = {
+                metadata: { title: "Fix Quiz", version: "1.0" },
+                questions: [
+                    { type: "single_choice", text: "Pick two", options: ["A", "B", "C"], correct_answers: [0, 2] },
+                    { type: "true_false", text: "The sky is blue.", correct_answers: [0] }
+                ]
+            };
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'fix-all.quiz');
+            const actions = await getCodeActions(document, new vscode.Range(0, 0, 0, 0), vscode.CodeActionKind.SourceFixAll);
+            await applyCodeAction(actions.find(a => a.title === 'Fix all auto-fixable problems'));
+
+            const fixed = JSON.parse(document.getText());
+            assert.strictEqual(fixed.metadata.author, 'Author name');
+            assert.strictEqual(fixed.metadata.description, 'Quiz description');
+            assert.strictEqual(fixed.questions[0].type, 'multiple_choice');
+            assert.deepStrictEqual(fixed.questions[1].options, ['True', 'False']);
+
+            const errors = (await getDiagnostics(document)).filter(d => d.severity === vscode.DiagnosticSeverity.Error);
+            assert.strictEqual(errors.length, 0, `Expected no errors, but found: ${errors.map(e => e.message).join(', ')}`);
+        });
+    });
+
+    suite('Quiz Hovers', () => {
+        const quiz = {
+            format_version: 2,
+            metadata: { title: "Hover Quiz", description: "Quiz used to exercise hovers", version: "1.0.0", author: "Test Author" },
+            questions: [
+                { type: "single_choice", text: "What is $\\frac{1}{2}$ of 4?", options: ["2", "Paris"], correct_answers: [0] }
+            ]
+        };
+
+        async function getHovers(document: vscode.TextDocument, offset: number): Promise<vscode.Hover[]> {
+            return await vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', document.uri, document.positionAt(offset)) ?? [];
+        }
+
+        function hoverText(hover: vscode.Hover): string {
+            return hover.contents.map(content => typeof content === 'string' ? content : content.value).join('\n');
+        }
+
+        test('Should render the formula under the cursor', async () => {
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'hover-math.quiz');
+            const hovers = await getHovers(document, document.getText().indexOf('frac'));
+
+            const formula = hovers.find(hover => hoverText(hover).includes('1/2'));
+            assert.ok(formula?.range, 'Should show the rendered formula');
+            assert.strictEqual(document.getText(formula.range), '$\\\\frac{1}{2}$');
+        });
+
+        test('Should not show a hover on an option without a formula', async () => {
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'hover-plain.quiz');
+            const hovers = await getHovers(document, document.getText().indexOf('Paris') + 1);
+
+            assert.deepStrictEqual(hovers, []);
+        });
+    });
+
+    suite('Quiz Document Symbols', () => {
+        test('Should list metadata and each question with its type, text and options', async () => {
+            const quiz = {
+                format_version: 2,
+                metadata: { title: "Symbol Quiz", description: "Quiz used to exercise symbols", version: "1.0.0", author: "Test Author", tags: ["geo", "eu"] },
+                questions: [
+                    { type: "single_choice", text: "What is the capital of France, the largest country in western Europe?", options: ["Paris", { text: "Rome" }], correct_answers: [0] },
+                    { type: "numeric", text: "How many legs does a spider have?", answers: [{ value: 8 }] }
+                ]
+            };
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'symbols.quiz');
+            const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', document.uri) ?? [];
+
+            assert.deepStrictEqual(symbols.map(symbol => symbol.name), [
+                'metadata',
+                'Q1 · single_choice · What is the capital of France, the larg…',
+                'Q2 · numeric · How many legs does a spider have?'
+            ]);
+            assert.deepStrictEqual(symbols[0].children.map(symbol => [symbol.name, symbol.detail]), [
+                ['title', 'Symbol Quiz'],
+                ['description', 'Quiz used to exercise symbols'],
+                ['version', '1.0.0'],
+                ['author', 'Test Author'],
+                ['tags', '2 items']
+            ]);
+            assert.deepStrictEqual(symbols[1].children.map(symbol => [symbol.name, symbol.detail]), [['[0] Paris', '✓ correct'], ['[1] Rome', '']]);
+            assert.deepStrictEqual(symbols[2].children, []);
+            assert.strictEqual(document.getText(symbols[2].selectionRange), '"How many legs does a spider have?"');
+        });
+    });
+
+    suite('Quiz CodeLens', () => {
+        test('Should summarize the quiz above metadata and offer actions above each question', async () => {
+            const quiz = {
+                format_version: 2,
+                metadata: { title: "Lens Quiz", description: "Quiz used to exercise CodeLens", version: "1.0.0", author: "Test Author", time_limit: 5 },
+                questions: [
+                    { type: "single_choice", text: "Pick one", options: ["A", "B"], correct_answers: [0], points: 2 },
+                    { type: "true_false", text: "The sky is blue.", options: ["True", "False"], correct_answers: [0] },
+                    { type: "multiple_choice", text: "Pick two", options: ["A", "B", "C"], correct_answers: [0, 1] }
+                ]
+            };
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'codelens.quiz');
+            const lenses = await vscode.commands.executeCommand<vscode.CodeLens[]>('vscode.executeCodeLensProvider', document.uri) ?? [];
+
+            // Lens titles by the line they are shown above
+            const titlesByLine = new Map<number, string[]>();
+            for (const lens of lenses) {
+                titlesByLine.set(lens.range.start.line, [...titlesByLine.get(lens.range.start.line) ?? [], lens.command?.title ?? '']);
+            }
+            const lineOf = (text: string) => document.positionAt(document.getText().indexOf(text)).line;
+            const questionLine = (index: number) => lineOf(`"text": "${quiz.questions[index].text}"`) - 2;
+
+            assert.deepStrictEqual(titlesByLine.get(lineOf('"metadata"')), ['3 questions · 4 pts · ~3 of 5 min', 'Preview']);
+            assert.deepStrictEqual(titlesByLine.get(questionLine(0)), ['Q1 of 3 · 2 pts · single_choice', 'Preview', 'Duplicate', 'Move down', 'Shuffle options']);
+            assert.deepStrictEqual(titlesByLine.get(questionLine(1)), ['Q2 of 3 · 1 pt · true_false', 'Preview', 'Duplicate', 'Move up', 'Move down']);
+            assert.deepStrictEqual(titlesByLine.get(questionLine(2)), ['Q3 of 3 · 1 pt · multiple_choice', 'Preview', 'Duplicate', 'Move up', 'Shuffle options']);
+
+            const moveDown = lenses.find(lens => lens.command?.title === 'Move down');
+            assert.strictEqual(moveDown?.command?.command, 'quiz-file-support.moveQuestion');
+            assert.deepStrictEqual(moveDown.command.arguments?.slice(1), [0, 1]);
+        });
+    });
+
+    suite('Quiz Inlay Hints', () => {
+        test('Should show option indices, correct markers and the options correct_answers point to', async () => {
+            const quiz = {
+                format_version: 2,
+                metadata: { title: "Hint Quiz", description: "Quiz used to exercise inlay hints", version: "1.0.0", author: "Test Author" },
+                questions: [
+                    { type: "single_choice", text: "Capital of Italy?", options: ["Paris", { text: "Rome", feedback: "Yes" }], correct_answers: [1] },
+                    { type: "numeric", text: "How many legs does a spider have?", answers: [{ value: 8 }] }
+                ]
+            };
+            const document = await createTestDocument(JSON.stringify(quiz, null, 2), 'inlay-hints.quiz');
+            const text = document.getText();
+            const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+            const hints = await vscode.commands.executeCommand<vscode.InlayHint[]>('vscode.executeInlayHintProvider', document.uri, fullRange) ?? [];
+
+            const optionObjectStart = text.indexOf('{', text.indexOf('"Paris"'));
+            const optionObjectEnd = text.indexOf('}', optionObjectStart) + 1;
+            const answerEnd = text.indexOf('1', text.indexOf('"correct_answers"')) + 1;
+            assert.deepStrictEqual(
+                hints.map(hint => [document.offsetAt(hint.position), hint.label]).sort(([a], [b]) => (a as number) - (b as number)),
+                [
+                    [text.indexOf('"Paris"'), '[0]'],
+                    [optionObjectStart, '[1]'],
+                    [optionObjectEnd, '✓'],
+                    [answerEnd, 'Rome']
+                ]
+            );
+        });
+    });
+
+    suite('Quiz Refactorings', () => {
+        const quizText = (questions: string[]) => [
+            '{',
+            '  "format_version": 2,',
+            '  "metadata": { "title": "Refactoring Quiz", "description": "Quiz used to exercise refactorings", "version": "1.0.0", "author": "Test Author" },',
+            '  "questions": [',
+            questions.map(question => `    ${question}`).join(',\n'),
+            '  ]',
+            '}'
+        ].join('\n');
+        const pick = '{ "type": "multiple_choice", "text": "Pick", "options": ["A", "B", "C"], "correct_answers": [0, 2] }';
+        const other = '{ "type": "single_choice", "text": "Other", "options": ["X", "Y"], "correct_answers": [1] }';
+
+        async function applyRefactoring(fileName: string, createEdit: (document: vscode.TextDocument) => vscode.WorkspaceEdit | undefined): Promise<string> {
+            const document = await createTestDocument(quizText([pick, other]), fileName);
+            const edit = createEdit(document);
+            assert.ok(edit, 'Should provide an edit');
+            assert.ok(await vscode.workspace.applyEdit(edit));
+            return document.getText();
+        }
+
+        test('Should delete an option and renumber correct_answers', async () => {
+            const text = await applyRefactoring('delete-option.quiz', document => deleteOption(document, 0, 1));
+            assert.strictEqual(text, quizText(['{ "type": "multiple_choice", "text": "Pick", "options": ["A", "C"], "correct_answers": [0, 1] }', other]));
+        });
+
+        test('Should move options and questions', async () => {
+            const movedOption = await applyRefactoring('move-option.quiz', document => moveOption(document, 1, 0, 1));
+            assert.strictEqual(movedOption, quizText([pick, '{ "type": "single_choice", "text": "Other", "options": ["Y", "X"], "correct_answers": [0] }']));
+
+            const movedQuestion = await applyRefactoring('move-question.quiz', document => moveQuestion(document, 0, 1));
+            assert.strictEqual(movedQuestion, quizText([other, pick]));
+        });
+
+        test('Should shuffle options reproducibly with a seed', async () => {
+            const text = await applyRefactoring('shuffle-options.quiz', document => shuffleOptions(document, 0, seededRandom(1)));
+            assert.strictEqual(text, quizText(['{ "type": "multiple_choice", "text": "Pick", "options": ["C", "A", "B"], "correct_answers": [0, 1] }', other]));
+        });
+
+        test('Should recognize the only correct option before deleting it', async () => {
+            const document = await createTestDocument(quizText([pick, other]), 'only-correct.quiz');
+            assert.ok(isOnlyCorrectOption(document, 1, 1));
+            assert.ok(!isOnlyCorrectOption(document, 1, 0));
+            assert.ok(!isOnlyCorrectOption(document, 0, 0), 'Should allow deleting one of several correct options');
+        });
+    });
+
+    suite('Quiz Completions', () => {
+        const schema = readSchemaFiles(path.join(__dirname, '..', '..', 'schemas')).get(LATEST_FORMAT_VERSION);
+        const provider = new QuizCompletionProvider(() => schema);
+        const metadata = '"metadata": { "title": "Completion Quiz", "description": "Quiz used to exercise completions", "version": "1.0.0", "author": "Test Author" }';
+
+        // Completes at the | in the content, which is removed
+        async function getCompletions(content: string, fileName: string): Promise<vscode.CompletionItem[]> {
+            const offset = content.indexOf('|');
+            const document = await createTestDocument(content.slice(0, offset) + content.slice(offset + 1), fileName);
+            return await provider.provideCompletionItems(document, document.positionAt(offset));
+        }
+
+        function label(item: vscode.CompletionItem): string {
+            return typeof item.label === 'string' ? item.label : item.label.label;
+        }
+
+        test('Should offer a question scaffold for each type inside an empty question', async () => {
+            const items = await getCompletions(`{ "format_version": 2, ${metadata}, "questions": [{ | }] }`, 'completion-question.quiz');
+
+            assert.deepStrictEqual(items.map(label), QUESTION_TYPES.map(type => `${type} question`));
+            const singleChoice = items[QUESTION_TYPES.indexOf('single_choice')];
+            assert.ok((singleChoice.insertText as vscode.SnippetString).value.startsWith('"type": "single_choice",\n"text": "$1",\n"options"'));
+        });
+
+        test('Should offer the metadata keys that are not set, the required ones first', async () => {
+            const items = await getCompletions(
+                `{ "format_version": 2, "metadata": { "title": "Completion Quiz", "description": "Quiz used to exercise completions", | }, "questions": [] }`,
+                'completion-metadata.quiz'
+            );
+
+            const sorted = [...items].sort((a, b) => a.sortText!.localeCompare(b.sortText!));
+            assert.deepStrictEqual(sorted.map(label), ['version', 'author', 'created_date', 'modified_date', 'tags', 'difficulty', 'time_limit']);
+            assert.strictEqual(sorted[0].detail, 'Required');
+            assert.strictEqual((items.find(item => label(item) === 'difficulty')!.insertText as vscode.SnippetString).value, '"difficulty": ${1|"easy","medium","hard"|}');
+        });
+
+        test('Should offer the question types with the fields they add in type', async () => {
+            const items = await getCompletions(`{ "format_version": 2, ${metadata}, "questions": [{ "type": "|", "text": "Capital of France?" }] }`, 'completion-type.quiz');
+
+            assert.deepStrictEqual(items.map(label), QUESTION_TYPES);
+            const singleChoice = items[QUESTION_TYPES.indexOf('single_choice')];
+            assert.strictEqual(singleChoice.detail, 'Adds options, correct_answers, explanation');
+        });
+
+        test('Should not offer completions inside question text', async () => {
+            const items = await getCompletions(`{ "format_version": 2, ${metadata}, "questions": [{ "type": "single_choice", "text": "Capi|tal of France?" }] }`, 'completion-none.quiz');
+
+            assert.deepStrictEqual(items, []);
+        });
+    });
+
     suite('Quiz Extension Commands', () => {
         test('Should have validate command available', async () => {
             const commands = await vscode.commands.getCommands();
@@ -329,6 +971,18 @@ suite('QUIZ Extension Test Suite', () => {
             const hasDiagnoseCommand = commands.includes('quiz-file-support.diagnoseDetection');
             assert.ok(hasDiagnoseCommand, 'Should have quiz-file-support.diagnoseDetection command');
         });
+
+        test('Should have validate workspace command available', async () => {
+            const commands = await vscode.commands.getCommands();
+            const hasValidateWorkspaceCommand = commands.includes('quiz-file-support.validateWorkspace');
+            assert.ok(hasValidateWorkspaceCommand, 'Should have quiz-file-support.validateWorkspace command');
+        });
+
+        test('Should have migrate to latest format command available', async () => {
+            const commands = await vscode.commands.getCommands();
+            const hasMigrateCommand = commands.includes('quiz-file-support.migrateToLatest');
+            assert.ok(hasMigrateCommand, 'Should have quiz-file-support.migrateToLatest command');
+        });
     });
 
     suite('Quiz File Structure Validation - Metadata Fields', () => {
@@ -0,0 +1,740 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    checkTex,
+    computeQuizStatistics,
+    createSchemaValidator,
+    findMathSegments,
+    findMigrations,
+    formatQuiz,
+    isAcceptedAnswer,
+    isAcceptedNumber,
+    isManuallyGraded,
+    movedOrder,
+    optionFeedback,
+    optionText,
+    parseLintConfig,
+    parseSchemaExtension,
+    quizToMarkdown,
+    readSchemaFiles,
+    renderMathText,
+    renumberAnswers,
+    scoreChoiceResponse,
+    seededRandom,
+    shuffledOrder,
+    texToUnicode,
+    validateQuiz,
+    ChoiceQuestion,
+    CODE_LANGUAGES,
+    LATEST_FORMAT_VERSION,
+    ValidationOptions
+} from '../src/validator';
+import { FORMATTERS } from '../src/cli/formatters';
+
+const schemas = readSchemaFiles(path.join(__dirname, '..', '..', 'schemas'));
+const schema = createSchemaValidator(schemas);
+
+// Validates a quiz made of a single question against the bundled schema
+function validateQuestion(question: object, metadataTitle = 'Quiz', options: ValidationOptions = {}) {
+    const quiz = {
+        format_version: 2,
+        metadata: { title: metadataTitle, description: 'A quiz', version: '1.0.0', author: 'Author' },
+        questions: [question]
+    };
+    return validateQuiz(JSON.stringify(quiz, null, 2), { schema, ...options });
+}
+
+suite('Headless Quiz Validator', () => {
+    const validQuiz = {
+        format_version: 2,
+        metadata: {
+            title: 'Test Quiz',
+            description: 'A test quiz',
+            version: '1.0.0',
+            author: 'Test Author'
+        },
+        questions: [
+            {
+                type: 'single_choice',
+                text: 'What is 2 + 2?',
+                options: ['3', '4', '5'],
+                correct_answers: [1]
+            }
+        ]
+    };
+
+    test('Should report no problems for a valid quiz', () => {
+        const problems = validateQuiz(JSON.stringify(validQuiz, null, 2), { schema });
+        assert.deepStrictEqual(problems, []);
+    });
+
+    test('Should report JSON syntax errors without a rule', () => {
+        const problems = validateQuiz('{\n  "metadata": {\n}');
+        assert.ok(problems.length > 0);
+        assert.ok(problems[0].message.startsWith('Invalid JSON'));
+        assert.strictEqual(problems[0].ruleId, undefined);
+        assert.strictEqual(problems[0].severity, 'error');
+    });
+
+    test('Should locate rule problems with zero-based ranges', () => {
+        const quiz = { ...validQuiz, questions: [{ ...validQuiz.questions[0], correct_answers: [7] }] };
+        const text = JSON.stringify(quiz, null, 2);
+        const problem = validateQuiz(text).find(problem => problem.ruleId === 'quiz/answer-index-range');
+        assert.ok(problem, 'Should report the out-of-range index');
+        assert.strictEqual(text.substr(problem.offset, problem.length), '7');
+        const lines = text.split('\n');
+        assert.strictEqual(lines[problem.range.start.line].substr(problem.range.start.character, problem.length), '7');
+    });
+
+    test('Should report schema errors only when a schema is given', () => {
+        const text = JSON.stringify({ ...validQuiz, extra: true });
+        assert.ok(!validateQuiz(text).some(problem => problem.source === 'quiz-schema'));
+        assert.ok(validateQuiz(text, { schema }).some(problem => problem.source === 'quiz-schema'));
+    });
+
+    test('Should apply rule severities and suppressions to the schema errors a rule covers', () => {
+        const question = { ...validQuiz.questions[0], correct_answers: [0, 1] };
+        const text = JSON.stringify({ ...validQuiz, questions: [question] });
+        const problems = (ruleOverrides: Record<string, unknown>) => validateQuiz(text, { schema, ruleOverrides: [ruleOverrides] })
+            .map(problem => [problem.source, problem.ruleId, problem.severity]);
+        assert.deepStrictEqual(problems({}), [['quiz-validator', 'quiz/answer-count', 'error']]);
+        assert.deepStrictEqual(problems({ 'quiz/answer-count': 'warning' }), [['quiz-validator', 'quiz/answer-count', 'warning']]);
+        assert.deepStrictEqual(problems({ 'quiz/answer-count': 'off' }), []);
+
+        const suppressed = { ...validQuiz, questions: [{ ...validQuiz.questions[0], options: ['4'], correct_answers: [0], '$lint-disable': ['quiz/option-count'] }] };
+        assert.deepStrictEqual(validateQuiz(JSON.stringify(suppressed), { schema }), []);
+    });
+
+    test('Should not repeat the problems a rule reported as schema errors', () => {
+        const essay = { type: 'essay', text: 'Explain recursion.', points: 2, rubric: [{ criterion: 'Content', levels: [{ descriptor: 'Incomplete', points: 0 }, { descriptor: 'Complete', points: 2 }] }], scoring: { strategy: 'proportional' } };
+        const ordering = { type: 'ordering', text: 'Order the numbers.', items: ['1', '2', '3'], correct_order: [0, 0, 2] };
+        const problems = validateQuiz(JSON.stringify({ ...validQuiz, questions: [essay, ordering] }), { schema });
+        assert.deepStrictEqual(problems.map(problem => [problem.source, problem.ruleId]), [
+            ['quiz-validator', 'quiz/ordering-sequence'],
+            ['quiz-validator', 'quiz/ordering-sequence'],
+            ['quiz-validator', 'quiz/scoring-strategy']
+        ]);
+    });
+
+    test('Should apply strict mode and rule overrides in order', () => {
+        const text = JSON.stringify(validQuiz);
+        assert.ok(!validateQuiz(text).some(problem => problem.ruleId === 'quiz/require-points'));
+        assert.ok(validateQuiz(text, { strictMode: true }).some(problem => problem.ruleId === 'quiz/require-points'));
+
+        const problems = validateQuiz(text, {
+            strictMode: true,
+            ruleOverrides: [{ 'quiz/require-points': 'off', 'quiz/require-explanation': 'off' }, { 'quiz/require-points': 'info' }]
+        });
+        assert.deepStrictEqual(problems.map(problem => [problem.ruleId, problem.severity]), [['quiz/require-points', 'info']]);
+    });
+
+    test('Should report keys of another question type in strict mode', () => {
+        const question = { ...validQuiz.questions[0], blanks: [], tolerance: 1 };
+        const problems = validateQuiz(JSON.stringify({ ...validQuiz, questions: [question] }), { strictMode: true })
+            .filter(problem => problem.ruleId === 'quiz/no-unknown-keys');
+        assert.deepStrictEqual(problems.map(problem => problem.message), [
+            "Question 1: Unknown property 'tolerance' is not allowed in strict mode",
+            "Question 1: Property 'blanks' does not apply to single_choice questions"
+        ]);
+    });
+
+    test('Should report deprecated and unsupported format versions', () => {
+        const { format_version, ...legacyQuiz } = validQuiz;
+        const legacyProblems = validateQuiz(JSON.stringify(legacyQuiz), { schema });
+        assert.deepStrictEqual(legacyProblems.map(problem => [problem.ruleId, problem.severity]), [['quiz/deprecated-format-version', 'warning']]);
+
+        const unsupportedProblems = validateQuiz(JSON.stringify({ ...validQuiz, format_version: 99 }), { schema });
+        const unsupported = unsupportedProblems.find(problem => problem.ruleId === 'quiz/format-version');
+        assert.ok(unsupported, 'Should report the unsupported format version');
+        assert.ok(unsupported.message.includes('Supported versions: 1, 2'));
+        assert.ok(!unsupportedProblems.some(problem => problem.source === 'quiz-schema'), 'Should not check unsupported versions against a schema');
+    });
+
+    test('Should validate each format version against its own schema', () => {
+        const { format_version, ...legacyQuiz } = validQuiz;
+        const explicitLegacy = validateQuiz(JSON.stringify({ ...legacyQuiz, format_version: 1 }), { schema });
+        assert.ok(!explicitLegacy.some(problem => problem.source === 'quiz-schema'), 'Version 1 files may declare format_version 1');
+
+        // The latest schema requires format_version, the version 1 schema does not
+        assert.deepStrictEqual(schema(legacyQuiz), []);
+        assert.ok(schema({ ...legacyQuiz, format_version: 2, extra: true }).length > 0);
+    });
+
+    test('Should report format version 2 features in files without format_version', () => {
+        const { format_version, ...legacyQuiz } = validQuiz;
+        const quiz = {
+            ...legacyQuiz,
+            scoring: { strategy: 'all_or_nothing' },
+            questions: [
+                { type: 'short_answer', text: 'Gold is ___.', blanks: [{ answers: ['Au'] }] },
+                { ...validQuiz.questions[0], options: ['A', { text: 'B', feedback: 'No' }], code: { language: 'python', source: 'print(1)' } }
+            ]
+        };
+        const problems = validateQuiz(JSON.stringify(quiz, null, 2), { schema }).filter(problem => problem.ruleId !== 'quiz/deprecated-format-version');
+        assert.deepStrictEqual(problems.map(problem => [problem.source, problem.ruleId, problem.message]), [
+            ['quiz-validator', 'quiz/format-version-features', 'Quiz scoring is only supported from format version 2. Run "QUIZ: Migrate to Latest Format" to declare it'],
+            ['quiz-validator', 'quiz/format-version-features', 'Question 1: The short_answer question type is only supported from format version 2. Run "QUIZ: Migrate to Latest Format" to declare it'],
+            ['quiz-validator', 'quiz/format-version-features', 'Question 2: Option 2 as an object is only supported from format version 2. Run "QUIZ: Migrate to Latest Format" to declare it'],
+            ['quiz-validator', 'quiz/format-version-features', 'Question 2: The code block is only supported from format version 2. Run "QUIZ: Migrate to Latest Format" to declare it']
+        ]);
+    });
+
+    test('Should migrate every supported format version to the latest one', () => {
+        assert.deepStrictEqual(findMigrations(LATEST_FORMAT_VERSION), []);
+        const migrations = findMigrations(1);
+        assert.strictEqual(migrations[migrations.length - 1].to, LATEST_FORMAT_VERSION);
+        assert.deepStrictEqual(migrations[0].modifications({}), [{ path: ['format_version'], value: 2, insertFirst: true }]);
+    });
+
+    test('Should report questions that are not objects', () => {
+        for (const question of [null, 42]) {
+            const problems = validateQuiz(JSON.stringify({ ...validQuiz, questions: [question] }), { schema, strictMode: true });
+            const problem = problems.find(problem => problem.source === 'quiz-validator');
+            assert.ok(problem, `Should report ${question}`);
+            assert.strictEqual(problem.message, 'Question 1 must be an object');
+            assert.strictEqual(problem.ruleId, 'quiz/question-type');
+        }
+    });
+
+    test('Should parse lint configuration files', () => {
+        const config = parseLintConfig('{ "rules": { "quiz/option-count": "off", "quiz/unknown": "off", "quiz/no-all-correct": "fatal" } }');
+        assert.strictEqual(config.rules?.['quiz/option-count'], 'off');
+        assert.deepStrictEqual(config.problems, ["unknown rule quiz/unknown", "invalid severity 'fatal' for quiz/no-all-correct"]);
+
+        const invalid = parseLintConfig('{ "rules": [] }');
+        assert.strictEqual(invalid.rules, undefined);
+        assert.strictEqual(invalid.problems.length, 1);
+    });
+});
+
+suite('Short Answer Questions', () => {
+    test('Should accept blanks matching the markers', () => {
+        assert.deepStrictEqual(validateQuestion({ type: 'short_answer', text: 'Water is ___ and gold is ___.', blanks: [{ answers: ['H2O'] }, { answers: ['Au'] }] }), []);
+        assert.deepStrictEqual(validateQuestion({ type: 'short_answer', text: 'Gold is {{2}}, water is {{1}}.', blanks: [{ answers: ['H2O'] }, { answers: ['^a(u|urum)$'], regex: true }] }), []);
+        assert.deepStrictEqual(validateQuestion({ type: 'short_answer', text: 'Name the capital of France.', blanks: [{ answers: ['Paris'] }] }), []);
+    });
+
+    test('Should require accepted answers for every blank', () => {
+        const problems = validateQuestion({ type: 'short_answer', text: 'Water is ___.', blanks: [{ answers: [] }] });
+        assert.ok(problems.some(problem => problem.ruleId === 'quiz/blanks-required' && problem.message === 'Question 1: Blank 1 must have at least one accepted answer'));
+        assert.ok(validateQuestion({ type: 'short_answer', text: 'Water is ___.' }).some(problem => problem.ruleId === 'quiz/blanks-required'));
+    });
+
+    test('Should report blank markers that do not match the blanks', () => {
+        const messages = (question: object) => validateQuestion(question).filter(problem => problem.ruleId === 'quiz/blank-markers').map(problem => problem.message);
+        assert.deepStrictEqual(messages({ type: 'short_answer', text: '___ and ___', blanks: [{ answers: ['a'] }] }), ['Question 1: The text has 2 blank marker(s) but 1 blank(s) are defined']);
+        assert.deepStrictEqual(messages({ type: 'short_answer', text: '{{1}} and {{3}}', blanks: [{ answers: ['a'] }, { answers: ['b'] }] }), [
+            'Question 1: Blank marker {{3}} has no matching blank. Valid markers: {{1}}-{{2}}',
+            'Question 1: Blank 2 has no {{2}} marker in the text'
+        ]);
+        assert.deepStrictEqual(messages({ type: 'short_answer', text: '{{1}} and ___', blanks: [{ answers: ['a'] }, { answers: ['b'] }] }), ['Question 1: Do not mix ___ and {{n}} blank markers in the same text']);
+    });
+
+    test('Should report regular expressions that do not compile', () => {
+        const problems = validateQuestion({ type: 'short_answer', text: 'Gold is ___.', blanks: [{ answers: ['Au', '(aurum'], regex: true }] });
+        const problem = problems.find(problem => problem.ruleId === 'quiz/valid-regex');
+        assert.ok(problem, 'Should report the invalid regular expression');
+        assert.strictEqual(problem.message, 'Question 1: Blank 1: Invalid regular expression: /^(?:(aurum)$/iu: Unterminated group');
+    });
+
+    test('Should match responses with the blank options', () => {
+        assert.ok(isAcceptedAnswer({ answers: ['Paris'] }, '  paris '));
+        assert.ok(!isAcceptedAnswer({ answers: ['Paris'], case_sensitive: true }, 'paris'));
+        assert.ok(!isAcceptedAnswer({ answers: ['Paris'], trim_whitespace: false }, ' Paris'));
+        assert.ok(isAcceptedAnswer({ answers: ['colou?r'], regex: true }, 'Color'));
+        assert.ok(!isAcceptedAnswer({ answers: ['colou?r'], regex: true }, 'colors'));
+    });
+});
+
+suite('Numeric Questions', () => {
+    function validateText(questionText: string) {
+        const text = `{
+  "format_version": 2,
+  "metadata": { "title": "Numbers", "description": "A quiz", "version": "1.0.0", "author": "Author" },
+  "questions": [${questionText}]
+}`;
+        return validateQuiz(text, { schema });
+    }
+
+    test('Should accept answers with tolerances and a unit', () => {
+        assert.deepStrictEqual(validateQuestion({ type: 'numeric', text: 'Standard gravity?', answers: [{ value: 9.81, tolerance: 0.05 }, { value: 32.2, relative_tolerance: 0.01 }], unit: 'm/s²' }), []);
+        assert.deepStrictEqual(validateQuestion({ type: 'numeric', text: 'How many legs does a spider have?', answers: [{ value: 8 }] }), []);
+    });
+
+    test('Should report invalid values and tolerances', () => {
+        const messages = (problems: { ruleId?: string; message: string }[]) => problems.filter(problem => problem.ruleId === 'quiz/numeric-answers').map(problem => problem.message);
+        assert.deepStrictEqual(messages(validateQuestion({ type: 'numeric', text: 'Value?', answers: [{ value: 1, tolerance: -0.1 }] })), ['Question 1: Answer 1: tolerance cannot be negative']);
+        assert.deepStrictEqual(messages(validateText('{ "type": "numeric", "text": "Value?", "answers": [{ "value": 1e999 }] }')), ['Question 1: Answer 1: value must be a finite number']);
+        assert.deepStrictEqual(messages(validateQuestion({ type: 'numeric', text: 'Value?', answers: [{ value: 1, tolerance: 0.1, relative_tolerance: 0.1 }] })), ['Question 1: Answer 1: Set either tolerance or relative_tolerance, not both']);
+        assert.ok(validateQuestion({ type: 'numeric', text: 'Value?', answers: [] }).some(problem => problem.ruleId === 'quiz/numeric-answers'));
+    });
+
+    test('Should warn about overlapping accepted ranges', () => {
+        const problems = validateQuestion({ type: 'numeric', text: 'Value?', answers: [{ value: 10, tolerance: 1 }, { value: 11.5, tolerance: 1 }] });
+        const problem = problems.find(problem => problem.ruleId === 'quiz/numeric-range-overlap');
+        assert.ok(problem, 'Should report the overlapping answers');
+        assert.strictEqual(problem.severity, 'warning');
+        assert.strictEqual(problem.message, 'Question 1: Answer 2 overlaps the accepted range of answer 1');
+    });
+
+    test('Should match responses within the tolerance', () => {
+        const answers = [{ value: 9.81, tolerance: 0.05 }, { value: 32.2, relative_tolerance: 0.01 }];
+        assert.ok(isAcceptedNumber(answers, 9.85));
+        assert.ok(isAcceptedNumber(answers, 32.5));
+        assert.ok(!isAcceptedNumber(answers, 9.9));
+        assert.ok(isAcceptedNumber([{ value: 8 }], 8));
+        assert.ok(!isAcceptedNumber([{ value: 8 }], 8.01));
+    });
+});
+
+suite('Matching and Ordering Questions', () => {
+    function messages(question: object, ruleId: string) {
+        return validateQuestion(question).filter(problem => problem.ruleId === ruleId).map(problem => problem.message);
+    }
+
+    test('Should accept complete pairs and sequences', () => {
+        assert.deepStrictEqual(validateQuestion({ type: 'matching', text: 'Match the planets', left: ['Mercury', 'Earth'], right: ['First', 'Third', 'Fifth'], pairs: [[1, 1], [0, 0]] }), []);
+        assert.deepStrictEqual(validateQuestion({ type: 'ordering', text: 'Order the steps', items: ['Second', 'First', 'Third'], correct_order: [1, 0, 2] }), []);
+    });
+
+    test('Should report unpaired and duplicated matching items', () => {
+        assert.deepStrictEqual(messages({ type: 'matching', text: 'Match', left: ['a', 'b', 'c'], right: ['x', 'y'], pairs: [[0, 0], [0, 1], [1, 0]] }, 'quiz/matching-pairs'), [
+            'Question 1: Pair 2: Left item 0 is already paired',
+            'Question 1: Pair 3: Right item 0 is already paired',
+            'Question 1: Left item 2 has no pair'
+        ]);
+        assert.deepStrictEqual(messages({ type: 'matching', text: 'Match', left: ['a'], right: ['x'], pairs: [[0, 3]] }, 'quiz/matching-pairs'), [
+            'Question 1: Pair 1 has invalid right index 3. Valid range: 0-0'
+        ]);
+    });
+
+    test('Should require correct_order to be a permutation of the items', () => {
+        assert.deepStrictEqual(messages({ type: 'ordering', text: 'Order', items: ['a', 'b', 'c'], correct_order: [0, 0, 5] }, 'quiz/ordering-sequence'), [
+            'Question 1: correct_order lists item 0 more than once',
+            'Question 1: correct_order contains invalid index 5. Valid range: 0-2',
+            'Question 1: correct_order must list every item exactly once. Missing: 1, 2'
+        ]);
+        assert.deepStrictEqual(messages({ type: 'ordering', text: 'Order', items: ['a', 'b'] }, 'quiz/ordering-sequence'), ['Question 1: Missing required property: correct_order']);
+    });
+});
+
+suite('Essay Questions', () => {
+    function essay(rubric: object[], points = 4) {
+        return validateQuestion({ type: 'essay', text: 'Explain why the Moon shows phases', points, rubric, word_limit: 150 }, 'Essays');
+    }
+
+    const levels = (...points: number[]) => points.map(value => ({ descriptor: `${value} points`, points: value }));
+
+    test('Should accept a rubric that adds up to the question points', () => {
+        assert.deepStrictEqual(essay([{ criterion: 'Accuracy', levels: levels(0, 1, 2) }, { criterion: 'Clarity', levels: levels(0, 2) }]), []);
+    });
+
+    test('Should report rubric totals that do not match points', () => {
+        const problems = essay([{ criterion: 'Accuracy', levels: levels(0, 3) }], 4);
+        assert.deepStrictEqual(problems.filter(problem => problem.ruleId === 'quiz/rubric-points').map(problem => problem.message), ['Question 1: The rubric adds up to 3 points but the question is worth 4']);
+        const withoutPoints = validateQuestion({ type: 'essay', text: 'Explain why the Moon shows phases', rubric: [{ criterion: 'Accuracy', levels: levels(0, 3) }] });
+        assert.deepStrictEqual(withoutPoints.filter(problem => problem.ruleId === 'quiz/rubric-points').map(problem => problem.message), ['Question 1: The rubric adds up to 3 points but the question is worth 1 without points']);
+    });
+
+    test('Should require ascending levels and unique criteria', () => {
+        const problems = essay([{ criterion: 'Accuracy', levels: levels(0, 2, 2) }, { criterion: ' accuracy', levels: levels(0, 2) }]);
+        assert.deepStrictEqual(problems.filter(problem => problem.ruleId === 'quiz/rubric-level-order').map(problem => problem.message), ['Question 1: Criterion 1: Level 3 must be worth more than level 2 (2 points)']);
+        assert.deepStrictEqual(problems.filter(problem => problem.ruleId === 'quiz/rubric-unique-criteria').map(problem => problem.message), ['Question 1: Criterion 2 repeats criterion 1 "Accuracy"']);
+    });
+
+    test('Should treat essays as manually graded', () => {
+        assert.ok(isManuallyGraded({ type: 'essay' }));
+        assert.ok(!isManuallyGraded({ type: 'multiple_choice' }));
+    });
+});
+
+suite('Option Feedback', () => {
+    test('Should accept options with feedback mixed with plain strings', () => {
+        assert.deepStrictEqual(validateQuestion({
+            type: 'single_choice',
+            text: 'What is the capital of Australia?',
+            options: [{ text: 'Sydney', feedback: 'Sydney is the largest city, but not the capital.' }, 'Canberra', { text: 'Melbourne' }],
+            correct_answers: [1]
+        }), []);
+    });
+
+    test('Should apply option checks to option objects', () => {
+        const problems = validateQuestion({ type: 'true_false', text: 'The Earth is flat.', options: [{ text: 'Yes', feedback: 'No, it is not.' }, 'No'], correct_answers: [1] });
+        assert.ok(problems.some(problem => problem.ruleId === 'quiz/true-false-pair'));
+        assert.ok(!problems.some(problem => problem.ruleId === 'quiz/true-false-option-count'));
+        const duplicates = validateQuestion({ type: 'single_choice', text: 'Pick one', options: ['Paris', { text: 'paris ' }, 'Rome'], correct_answers: [0] });
+        assert.ok(duplicates.some(problem => problem.ruleId === 'quiz/no-duplicate-options' && problem.message === 'Question 1: Option 1 duplicates option 0'));
+    });
+
+    test('Should report options without a text', () => {
+        const problems = validateQuestion({ type: 'single_choice', text: 'Pick one', options: ['Paris', { feedback: 'Missing text' }], correct_answers: [0] });
+        assert.ok(problems.some(problem => problem.ruleId === 'quiz/options-required' && problem.message === 'Question 1: Option 1 must be a string or an object with a text'));
+    });
+
+    test('Should read the text and feedback of either shape', () => {
+        assert.strictEqual(optionText('Paris'), 'Paris');
+        assert.strictEqual(optionText({ text: 'Rome', feedback: 'Italy' }), 'Rome');
+        assert.strictEqual(optionFeedback({ text: 'Rome', feedback: 'Italy' }), 'Italy');
+        assert.strictEqual(optionFeedback('Paris'), undefined);
+    });
+});
+
+suite('Code Snippets', () => {
+    test('Should accept code blocks on questions and options', () => {
+        assert.deepStrictEqual(validateQuestion({
+            type: 'single_choice',
+            text: 'What does this program print?',
+            code: { language: 'python', source: 'print(len([1, 2, 3]))' },
+            options: ['2', { text: '3', code: { language: 'python', source: '3' } }],
+            correct_answers: [1]
+        }), []);
+    });
+
+    test('Should warn about unknown languages and empty code', () => {
+        const problems = validateQuestion({
+            type: 'single_choice',
+            text: 'What does this program print?',
+            code: { language: 'cobol', source: 'DISPLAY 1' },
+            options: ['1', { text: '2', code: { language: 'python', source: '  ' } }],
+            correct_answers: [0]
+        });
+        const codeProblems = problems.filter(problem => problem.ruleId === 'quiz/code-language' || problem.ruleId === 'quiz/empty-code');
+        assert.deepStrictEqual(codeProblems.map(problem => [problem.ruleId, problem.severity]), [['quiz/code-language', 'warning'], ['quiz/empty-code', 'warning']]);
+        assert.ok(codeProblems[0].message.startsWith("Question 1: Unknown code language 'cobol'"));
+        assert.strictEqual(codeProblems[1].message, 'Question 1: Option 1: Code block is empty');
+    });
+
+    test('Should embed a grammar for every code language', () => {
+        const grammar = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'syntaxes', 'quiz.tmLanguage.json'), 'utf8'));
+        for (const language of CODE_LANGUAGES) {
+            assert.ok(grammar.repository[`code-${language}`], `Missing grammar rule for ${language}`);
+        }
+    });
+});
+
+suite('Media Attachments', () => {
+    const repositoryRoot = path.join(__dirname, '..', '..');
+
+    function mediaProblems(media: object, mediaBaseDirectory?: string) {
+        const question = { type: 'single_choice', text: 'Which icon is this?', media, options: ['Quiz', { text: 'Other', media }], correct_answers: [0] };
+        return validateQuestion(question, 'Media', { mediaBaseDirectory });
+    }
+
+    test('Should accept existing media with alt text', () => {
+        assert.deepStrictEqual(mediaProblems({ path: 'icons/icon.png', alt: 'The extension icon' }, repositoryRoot), []);
+    });
+
+    test('Should report missing files, unsupported types and missing alt text', () => {
+        const problems = mediaProblems({ path: 'icons/missing.bmp' }, repositoryRoot).filter(problem => problem.message.startsWith('Question 1: Option'));
+        assert.deepStrictEqual(problems.map(problem => [problem.ruleId, problem.severity]), [
+            ['quiz/media-path', 'error'],
+            ['quiz/media-type', 'error'],
+            ['quiz/media-alt', 'warning']
+        ]);
+        assert.strictEqual(problems[0].message, "Question 1: Option 1: Media file 'icons/missing.bmp' does not exist");
+    });
+
+    test('Should require relative paths and skip the file check without a base directory', () => {
+        assert.ok(mediaProblems({ path: 'https://example.com/icon.png', alt: 'Icon' }).some(problem => problem.message === "Question 1: Media path 'https://example.com/icon.png' must be relative to the quiz file"));
+        assert.deepStrictEqual(mediaProblems({ path: 'icons/missing.png', alt: 'Icon' }), []);
+    });
+});
+
+suite('Math', () => {
+    test('Should find inline and display formulas', () => {
+        const { segments, unclosed } = findMathSegments('Costs \\$5: $x^2$ and $$\\frac{1}{2}$$');
+        assert.strictEqual(unclosed, undefined);
+        assert.deepStrictEqual(segments.map(segment => [segment.tex, segment.display]), [['x^2', false], ['\\frac{1}{2}', true]]);
+        assert.deepStrictEqual(findMathSegments('It costs $5').unclosed, { offset: 9, delimiter: '$' });
+    });
+
+    test('Should check the structure of TeX', () => {
+        assert.strictEqual(checkTex('\\left( \\frac{a}{b} \\right) + x_{i}^2'), undefined);
+        assert.strictEqual(checkTex('\\begin{matrix} a & b \\end{matrix}'), undefined);
+        assert.strictEqual(checkTex('\\frac{1}{2'), 'Missing }');
+        assert.strictEqual(checkTex('\\left( x'), '\\left without a matching \\right');
+        assert.strictEqual(checkTex('\\begin{matrix} a \\end{array}'), '\\end{array} does not match \\begin{matrix}');
+        assert.strictEqual(checkTex('x^'), 'Missing superscript after ^');
+        assert.strictEqual(checkTex(' '), 'Empty formula');
+    });
+
+    test('Should report formulas in texts, options and explanations', () => {
+        const problems = validateQuestion({
+            type: 'single_choice',
+            text: 'What is $\\frac{1}{2} + \\frac{1}{4}$?',
+            options: ['$\\frac{3}{4}$', { text: '$\\frac{2}{6$' }, 'It costs $1'],
+            correct_answers: [0],
+            explanation: 'Add $\\frac{2}{4}$ and $\\frac{1}{4}$.'
+        });
+        assert.deepStrictEqual(problems.map(problem => [problem.ruleId, problem.message]), [
+            ['quiz/math-syntax', 'Question 1: Invalid formula $\\frac{2}{6$ in option 1: Missing }'],
+            ['quiz/math-delimiters', 'Question 1: Unclosed $ in option 2. Write \\\\$ for a literal dollar sign']
+        ]);
+    });
+
+    test('Should render formulas as Unicode for hovers', () => {
+        assert.strictEqual(texToUnicode('\\frac{1}{2} + x^2'), '1/2 + x²');
+        assert.strictEqual(texToUnicode('\\sqrt{a_1 + b^{n+1}} \\leq \\pi'), '√(a₁ + bⁿ⁺¹) ≤ π');
+        assert.strictEqual(texToUnicode('e^{i\\theta}'), 'e^(iθ)');
+        assert.strictEqual(renderMathText('Costs \\$5 or $\\alpha \\times 2$'), 'Costs $5 or α × 2');
+    });
+});
+
+suite('Scoring', () => {
+    const question: ChoiceQuestion = { type: 'multiple_choice', text: 'Pick the primes', options: ['2', '3', '4', '5'], correct_answers: [0, 1, 3], points: 3 };
+
+    function scoringMessages(quiz: object) {
+        const text = JSON.stringify({ format_version: 2, metadata: { title: 'Scoring', description: 'A quiz', version: '1.0.0', author: 'Author' }, ...quiz }, null, 2);
+        return validateQuiz(text, { schema }).filter(problem => problem.ruleId === 'quiz/scoring-strategy').map(problem => problem.message);
+    }
+
+    test('Should score with every strategy', () => {
+        assert.strictEqual(scoreChoiceResponse(question, [0, 1]), 0);
+        assert.strictEqual(scoreChoiceResponse(question, [0, 1, 3]), 3);
+        assert.strictEqual(scoreChoiceResponse({ ...question, scoring: { strategy: 'proportional' } }, [0, 1]), 2);
+        assert.strictEqual(scoreChoiceResponse({ ...question, scoring: { strategy: 'proportional' } }, [0, 1, 2]), 0);
+        assert.strictEqual(scoreChoiceResponse({ ...question, scoring: { strategy: 'right_minus_wrong' } }, [0, 1, 2]), 1);
+        assert.strictEqual(scoreChoiceResponse({ ...question, scoring: { strategy: 'right_minus_wrong' } }, [2]), 0);
+        assert.strictEqual(scoreChoiceResponse({ ...question, scoring: { strategy: 'negative_marking', penalty: 0.5, floor: -1 } }, [2]), -1);
+        assert.strictEqual(scoreChoiceResponse({ ...question, scoring: { strategy: 'negative_marking', penalty: 0.5 } }, [2]), 0);
+    });
+
+    test('Should use the quiz scoring only where its strategy applies', () => {
+        const single: ChoiceQuestion = { type: 'single_choice', text: 'Pick one', options: ['a', 'b'], correct_answers: [0] };
+        assert.strictEqual(scoreChoiceResponse(question, [0], { strategy: 'proportional' }), 1);
+        assert.strictEqual(scoreChoiceResponse(single, [1], { strategy: 'proportional' }), 0);
+        assert.strictEqual(scoreChoiceResponse(single, [1], { strategy: 'negative_marking', penalty: 0.25, floor: -1 }), -0.25);
+    });
+
+    test('Should reject parameters that do not fit the strategy or the question type', () => {
+        assert.deepStrictEqual(scoringMessages({
+            scoring: { strategy: 'proportional', penalty: 0.5 },
+            questions: [
+                { ...question, scoring: { strategy: 'negative_marking' } },
+                { type: 'single_choice', text: 'Pick one', options: ['a', 'b'], correct_answers: [0], scoring: { strategy: 'right_minus_wrong' } },
+                { type: 'essay', text: 'Discuss', rubric: [{ criterion: 'Content', levels: [{ descriptor: 'Done', points: 1 }] }], scoring: { strategy: 'all_or_nothing' } }
+            ]
+        }), [
+            'penalty only applies to negative_marking scoring, not proportional',
+            'Question 1: negative_marking scoring requires a penalty',
+            'Question 2: right_minus_wrong scoring does not apply to single_choice questions. Supported types: multiple_choice',
+            'Question 3: essay questions are graded manually and cannot set scoring'
+        ]);
+    });
+});
+
+suite('Statistics and Preview', () => {
+    const quiz = {
+        format_version: 2,
+        metadata: { title: 'Physics', description: 'Kinematics', version: '1.0.0', author: 'Author', time_limit: 10 },
+        questions: [
+            { type: 'single_choice', text: 'What is $v = \\frac{d}{t}$?', options: ['Speed', { text: 'Mass', feedback: 'Mass is measured in kg' }], correct_answers: [0], explanation: 'Distance over time.' },
+            { type: 'numeric', text: 'g in m/s²?', answers: [{ value: 9.81, tolerance: 0.05 }], unit: 'm/s²', points: 2 },
+            { type: 'essay', text: 'Explain inertia', rubric: [{ criterion: 'Accuracy', levels: [{ descriptor: 'Wrong', points: 0 }, { descriptor: 'Right', points: 3 }] }], points: 3 }
+        ]
+    };
+
+    test('Should compute the totals and the time budget', () => {
+        assert.deepStrictEqual(computeQuizStatistics(quiz), { questionCount: 3, totalPoints: 6, manuallyGradedPoints: 3, estimatedMinutes: 13, timeLimit: 10 });
+        assert.deepStrictEqual(computeQuizStatistics({ questions: 'none' }), { questionCount: 0, totalPoints: 0, manuallyGradedPoints: 0, estimatedMinutes: 0 });
+    });
+
+    test('Should render a question as Markdown with its formulas, answers and feedback', () => {
+        assert.strictEqual(quizToMarkdown(quiz, { questionIndex: 0 }), [
+            '# Physics',
+            '',
+            '## Question 1 of 3 · `single_choice` · 1 point',
+            '',
+            'What is $v = \\frac{d}{t}$?',
+            '',
+            '- ✅ **Speed**',
+            '- ⬜ Mass',
+            '  > Mass is measured in kg',
+            '',
+            '> **Explanation:** Distance over time.',
+            ''
+        ].join('\n'));
+        const markdown = quizToMarkdown(quiz);
+        assert.ok(markdown.includes('*3 questions · 6 points · about 13 minutes · time limit 10 minutes*'));
+        assert.ok(markdown.includes('- 9.81 ± 0.05 m/s²'));
+        assert.ok(markdown.includes('## Question 3 of 3 · `essay` · 3 points · graded manually'));
+    });
+});
+
+suite('Option Reordering', () => {
+    test('Should shuffle deterministically with a seed', () => {
+        const order = shuffledOrder(6, seededRandom(42));
+        assert.deepStrictEqual(shuffledOrder(6, seededRandom(42)), order);
+        assert.deepStrictEqual([...order].sort(), [0, 1, 2, 3, 4, 5]);
+        assert.notDeepStrictEqual(shuffledOrder(6, seededRandom(7)), order);
+    });
+
+    test('Should move items within the list only', () => {
+        assert.deepStrictEqual(movedOrder(4, 1, -1), [1, 0, 2, 3]);
+        assert.deepStrictEqual(movedOrder(4, 1, 2), [0, 2, 3, 1]);
+        assert.strictEqual(movedOrder(4, 3, 1), undefined);
+    });
+
+    test('Should renumber correct_answers to follow their options', () => {
+        assert.deepStrictEqual(renumberAnswers([0, 2], [2, 0, 1], 3), [0, 1]);
+        assert.deepStrictEqual(renumberAnswers([1, 2], [0, 2], 3), [1]);
+        assert.deepStrictEqual(renumberAnswers([0, 7], [1, 0], 2), [1, 7]);
+    });
+});
+
+suite('Formatting', () => {
+    const text = JSON.stringify({
+        questions: [{ points: 2, correct_answers: [0, 2], options: ['  Paris ', 'Lyon', 'Nice'], text: 'Which  cities\tare French? ', type: 'multiple_choice', custom: true, blanks: [{ answers: ['a  b'] }] }],
+        metadata: { author: 'Author', title: 'Cities' },
+        format_version: 2
+    }, null, 8);
+
+    test('Should sort keys, inline numeric arrays and normalize prose', () => {
+        assert.strictEqual(formatQuiz(text), [
+            '{',
+            '  "format_version": 2,',
+            '  "metadata": {',
+            '    "title": "Cities",',
+            '    "author": "Author"',
+            '  },',
+            '  "questions": [',
+            '    {',
+            '      "type": "multiple_choice",',
+            '      "text": "Which cities are French?",',
+            '      "options": [',
+            '        "Paris",',
+            '        "Lyon",',
+            '        "Nice"',
+            '      ],',
+            '      "correct_answers": [0, 2],',
+            '      "blanks": [',
+            '        {',
+            '          "answers": [',
+            '            "a  b"',
+            '          ]',
+            '        }',
+            '      ],',
+            '      "points": 2,',
+            '      "custom": true',
+            '    }',
+            '  ]',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    test('Should keep the key order and the strings when configured to', () => {
+        const formatted = formatQuiz(text, { indent: '\t', eol: '\n', sortKeys: false, normalizeWhitespace: false, inlineArrayWidth: 0 });
+        assert.ok(formatted?.startsWith('{\n\t"questions": [\n\t\t{\n\t\t\t"points": 2,\n\t\t\t"correct_answers": [\n\t\t\t\t0,'));
+        assert.ok(formatted?.includes('"text": "Which  cities\\tare French? "'));
+        assert.strictEqual(formatQuiz('{ "questions": [ }'), undefined);
+    });
+
+    test('Should keep the indentation of multi-line texts', () => {
+        const code = 'Fix this loop:\nfor i in range(3):\n    print(i)   \n    print(i  *  2)';
+        const formatted = formatQuiz(JSON.stringify({ questions: [{ type: 'essay', text: code }] }));
+        assert.strictEqual(JSON.parse(formatted!).questions[0].text, 'Fix this loop:\nfor i in range(3):\n    print(i)\n    print(i * 2)');
+    });
+
+    test('Should keep numbers, escapes and duplicate keys as written', () => {
+        const formatted = formatQuiz('{"questions":[{"points":12345678901234567890,"type":"numeric","text":"caf\\u00e9","answers":[{"value":1.50E3}],"text":"again"}]}');
+        assert.strictEqual(formatted, [
+            '{',
+            '  "questions": [',
+            '    {',
+            '      "type": "numeric",',
+            '      "text": "caf\\u00e9",',
+            '      "text": "again",',
+            '      "answers": [',
+            '        {',
+            '          "value": 1.50E3',
+            '        }',
+            '      ],',
+            '      "points": 12345678901234567890',
+            '    }',
+            '  ]',
+            '}',
+            ''
+        ].join('\n'));
+    });
+});
+
+suite('Workspace Schema Extensions', () => {
+    const quiz = {
+        format_version: 2,
+        metadata: { title: 'Course Quiz', description: 'A quiz', version: '1.0.0', author: 'Author', course_code: 'CS101' },
+        questions: [
+            { type: 'single_choice', text: 'Pick one', options: ['A', 'B'], correct_answers: [0], learning_outcome: 'LO1' }
+        ]
+    };
+    const extensionText = JSON.stringify({
+        metadata: { properties: { course_code: { type: 'string', pattern: '^[A-Z]+[0-9]+$' } }, required: ['course_code'] },
+        question: { properties: { learning_outcome: { type: 'string' } } }
+    });
+
+    test('Should reject custom metadata and question fields without an extension', () => {
+        const problems = validateQuiz(JSON.stringify(quiz), { schema });
+        assert.ok(problems.some(problem => problem.message === '/metadata: must NOT have additional properties'));
+        assert.ok(problems.some(problem => problem.message === '/questions/0: must NOT have additional properties'));
+    });
+
+    test('Should accept and validate the fields declared by an extension', () => {
+        const { extension } = parseSchemaExtension(extensionText);
+        assert.ok(extension, 'Should parse the extension');
+        const options = { schema: createSchemaValidator(schemas, extension), schemaExtension: extension, strictMode: true, ruleOverrides: [{ 'quiz/require-explanation': 'off', 'quiz/require-points': 'off' }] };
+        assert.deepStrictEqual(validateQuiz(JSON.stringify(quiz), options), []);
+
+        const invalid = { ...quiz, metadata: { ...quiz.metadata, course_code: 'cs-101' } };
+        assert.ok(validateQuiz(JSON.stringify(invalid), options).some(problem => problem.message.startsWith('/metadata/course_code')));
+
+        const { course_code, ...metadata } = quiz.metadata;
+        const missing = validateQuiz(JSON.stringify({ ...quiz, metadata }), options);
+        assert.ok(missing.some(problem => problem.message === "/metadata: must have required property 'course_code'"));
+    });
+
+    test('Should report invalid extension files', () => {
+        assert.deepStrictEqual(parseSchemaExtension('{ "meta": {} }').problems, ['unknown section "meta", expected "metadata" or "question"']);
+        assert.strictEqual(parseSchemaExtension('{ "metadata": { "required": "course_code" } }').extension, undefined);
+        assert.throws(() => createSchemaValidator(schemas, { metadata: { properties: { course_code: { type: 'text' } } } }));
+    });
+});
+
+suite('quiz-lint Formatters', () => {
+    const results = [
+        { filePath: 'valid.quiz', problems: [] },
+        { filePath: 'broken.quiz', problems: validateQuiz('{ "format_version": 2, "metadata": { "title": "<Quiz & co>" }, "questions": [] }') }
+    ];
+
+    test('Should emit machine-readable JSON', () => {
+        const output = JSON.parse(FORMATTERS.json(results));
+        assert.strictEqual(output.length, 2);
+        assert.strictEqual(output[0].errorCount, 0);
+        assert.ok(output[1].errorCount > 0);
+        assert.strictEqual(output[1].messages[0].line, 1);
+    });
+
+    test('Should emit SARIF 2.1.0 with one result per problem', () => {
+        const output = JSON.parse(FORMATTERS.sarif(results));
+        assert.strictEqual(output.version, '2.1.0');
+        const run = output.runs[0];
+        assert.strictEqual(run.tool.driver.name, 'quiz-lint');
+        assert.strictEqual(run.results.length, results[1].problems.length);
+        assert.strictEqual(run.results[0].ruleId, 'quiz/metadata-required');
+        assert.strictEqual(run.results[0].locations[0].physicalLocation.artifactLocation.uri, 'broken.quiz');
+    });
+
+    test('Should emit JUnit XML with a passing test case for clean files', () => {
+        const output = FORMATTERS.junit(results);
+        assert.ok(output.startsWith('<?xml'));
+        assert.ok(output.includes('<testsuite name="valid.quiz" tests="1" failures="0" errors="0">'));
+        assert.strictEqual(output.match(/<failure /g)?.length, results[1].problems.length);
+    });
+
+    test('Should summarize problems in the stylish format', () => {
+        const output = FORMATTERS.stylish(results);
+        assert.ok(output.includes('broken.quiz'));
+        assert.ok(!output.includes('valid.quiz\n'));
+        assert.ok(output.includes('quiz/metadata-required'));
+    });
+});